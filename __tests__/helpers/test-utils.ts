@@ -1,4 +1,7 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
 import path from "node:path";
+import type { ReportedIssue } from "../../src/reports/types";
 
 /**
  * Get the absolute path to a test fixture
@@ -9,6 +12,26 @@ export function getFixturePath(fixtureName: string): string {
   return path.join(__dirname, "..", "fixtures", fixtureName);
 }
 
+/**
+ * Create a reported issue for report tests
+ * @param overrides - Fields to change from an error in the auth spec
+ * @returns Issue with workspace-relative location
+ */
+export function createReportedIssue(
+  overrides: Partial<ReportedIssue> = {},
+): ReportedIssue {
+  return {
+    file: "spectr/specs/auth/spec.md",
+    itemName: "auth",
+    itemType: "spec",
+    level: "ERROR",
+    message: "Requirement has no scenarios",
+    path: "spectr/specs/auth/spec.md",
+    project: ".",
+    ...overrides,
+  };
+}
+
 /**
  * Create a mock process environment
  * @param env - Environment variables to set
@@ -87,3 +110,68 @@ export function assertDefined<T>(
     throw new Error(message || "Expected value to be defined");
   }
 }
+
+/**
+ * A canned response of the test server
+ */
+export interface TestResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * A local HTTP server standing in for GitHub or a release mirror
+ */
+export interface TestServer {
+  /** Base URL of the server, without a trailing slash */
+  url: string;
+  /** Requests received so far */
+  requests: http.IncomingMessage[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Start a local HTTP server on a free port
+ * @param routes - Response per request path; a list is answered in order,
+ * repeating its last response. Unknown paths get a 404
+ */
+export async function startTestServer(
+  routes: Record<string, TestResponse | TestResponse[]>,
+): Promise<TestServer> {
+  const requests: http.IncomingMessage[] = [];
+  const counts = new Map<string, number>();
+  const server = http.createServer((request, response) => {
+    requests.push(request);
+    const routePath = (request.url ?? "").split("?")[0];
+    const route = routes[routePath];
+    if (!route) {
+      response.writeHead(404, { "content-type": "application/json" });
+      response.end(JSON.stringify({ message: "Not Found" }));
+      return;
+    }
+    const count = counts.get(routePath) ?? 0;
+    counts.set(routePath, count + 1);
+    const { body, headers, status } = Array.isArray(route)
+      ? route[Math.min(count, route.length - 1)]
+      : route;
+    const isText = typeof body === "string";
+    response.writeHead(status ?? 200, {
+      "content-type": isText ? "text/plain" : "application/json",
+      ...headers,
+    });
+    response.end(isText ? body : JSON.stringify(body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+    requests,
+    url: `http://127.0.0.1:${port}`,
+  };
+}
@@ -17,6 +17,7 @@ const FIXTURES_PATH = path.join(__dirname, "../../fixtures/spectr-repo");
 
 describe("Issue Sync Integration Tests", () => {
   const mockConfig: IssueSyncConfig = {
+    apiUrl: "https://api.github.com",
     closeOnArchive: true,
     enabled: true,
     githubToken: "test-token",
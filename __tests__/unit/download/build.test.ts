@@ -0,0 +1,212 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, afterEach, before, describe, it } from "node:test";
+import * as tc from "@actions/tool-cache";
+import {
+  buildFromSource,
+  checkBuildFallback,
+  isMissingAssetError,
+} from "../../../src/download/build";
+import { getDefaultReleaseSource } from "../../../src/download/source";
+import { mockEnv } from "../../helpers/test-utils";
+
+describe("build.ts", () => {
+  describe("isMissingAssetError", () => {
+    it("should match 404 download errors only", () => {
+      assert.equal(isMissingAssetError(new tc.HTTPError(404)), true);
+      assert.equal(isMissingAssetError(new tc.HTTPError(500)), false);
+      assert.equal(isMissingAssetError(new Error("404")), false);
+    });
+  });
+
+  describe("checkBuildFallback", () => {
+    const assets = ["spectr_Linux_x86_64.tar.gz", "checksums.txt"];
+
+    it("should allow releases without an asset for the runner", () => {
+      assert.doesNotThrow(() =>
+        checkBuildFallback("", "v0.2.0", "spectr_Linux_riscv64.tar.gz", assets),
+      );
+    });
+
+    it("should refuse missing releases", () => {
+      assert.throws(
+        () =>
+          checkBuildFallback(
+            "",
+            "v0.2.O",
+            "spectr_Linux_riscv64.tar.gz",
+            undefined,
+          ),
+        { message: /release v0\.2\.O was not found/ },
+      );
+    });
+
+    it("should refuse releases that have the asset", () => {
+      assert.throws(
+        () =>
+          checkBuildFallback(
+            "",
+            "v0.2.0",
+            "spectr_Linux_x86_64.tar.gz",
+            assets,
+          ),
+        { message: /Check download-url/ },
+      );
+    });
+
+    it("should refuse pinned checksums", () => {
+      assert.throws(
+        () =>
+          checkBuildFallback(
+            "abc123",
+            "v0.2.0",
+            "spectr_Linux_riscv64.tar.gz",
+            assets,
+          ),
+        { message: /checksum input/ },
+      );
+    });
+  });
+
+  describe("buildFromSource", { skip: process.platform === "win32" }, () => {
+    let tempDir: string;
+    let binDir: string;
+    let restoreEnv: () => void = () => {};
+
+    before(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "spectr-build-test-"));
+      binDir = path.join(tempDir, "bin");
+      fs.mkdirSync(binDir);
+      writeFakeGo(path.join(binDir, "go"), path.join(tempDir, "go.log"));
+    });
+
+    after(() => {
+      fs.rmSync(tempDir, { force: true, recursive: true });
+    });
+
+    afterEach(() => {
+      restoreEnv();
+      fs.rmSync(path.join(tempDir, "go.log"), { force: true });
+    });
+
+    function mockRunner(pathEnv: string): void {
+      restoreEnv = mockEnv({
+        PATH: pathEnv,
+        RUNNER_TEMP: fs.mkdtempSync(path.join(tempDir, "temp-")),
+        RUNNER_TOOL_CACHE: fs.mkdtempSync(path.join(tempDir, "cache-")),
+      });
+    }
+
+    it("should go install the resolved tag into the tool cache", async () => {
+      mockRunner(`${binDir}:/usr/bin:/bin`);
+      const result = await buildFromSource(
+        { enabled: true, sourcePath: "" },
+        getDefaultReleaseSource(),
+        "v0.2.0",
+        "Linux",
+        "riscv64",
+      );
+
+      assert.equal(result.version, "v0.2.0");
+      assert.equal(
+        result.cachedToolDir,
+        path.join(
+          process.env.RUNNER_TOOL_CACHE ?? "",
+          "spectr",
+          "0.2.0",
+          "riscv64",
+        ),
+      );
+      assert.ok(fs.existsSync(path.join(result.cachedToolDir, "spectr")));
+      assert.match(
+        fs.readFileSync(path.join(tempDir, "go.log"), "utf-8"),
+        /^install github\.com\/connerohnesorge\/spectr@v0\.2\.0$/m,
+      );
+    });
+
+    it("should go build a local checkout", async () => {
+      mockRunner(`${binDir}:/usr/bin:/bin`);
+      const checkout = fs.mkdtempSync(path.join(tempDir, "checkout-"));
+      const result = await buildFromSource(
+        { enabled: true, sourcePath: checkout },
+        getDefaultReleaseSource(),
+        "v0.2.0",
+        "Darwin",
+        "i386",
+      );
+
+      assert.ok(fs.existsSync(path.join(result.cachedToolDir, "spectr")));
+      const log = fs.readFileSync(path.join(tempDir, "go.log"), "utf-8");
+      assert.match(log, /^build -o .*\/spectr \.$/m);
+      assert.match(log, new RegExp(`^cwd ${checkout}$`, "m"));
+    });
+
+    it("should require a checkout for other repositories", async () => {
+      mockRunner(`${binDir}:/usr/bin:/bin`);
+      await assert.rejects(
+        buildFromSource(
+          { enabled: true, sourcePath: "" },
+          { ...getDefaultReleaseSource(), owner: "acme", repo: "spectr-fork" },
+          "v0.2.0",
+          "Linux",
+          "riscv64",
+        ),
+        { message: /acme\/spectr-fork requires spectr-source/ },
+      );
+      assert.equal(fs.existsSync(path.join(tempDir, "go.log")), false);
+    });
+
+    it("should go build checkouts of other repositories", async () => {
+      mockRunner(`${binDir}:/usr/bin:/bin`);
+      const checkout = fs.mkdtempSync(path.join(tempDir, "checkout-"));
+      const result = await buildFromSource(
+        { enabled: true, sourcePath: checkout },
+        { ...getDefaultReleaseSource(), owner: "acme", repo: "spectr-fork" },
+        "v0.2.0",
+        "Linux",
+        "riscv64",
+      );
+
+      assert.ok(fs.existsSync(path.join(result.cachedToolDir, "spectr")));
+      assert.match(
+        fs.readFileSync(path.join(tempDir, "go.log"), "utf-8"),
+        /^build -o /m,
+      );
+    });
+
+    it("should fail without Go on PATH", async () => {
+      mockRunner(path.join(tempDir, "empty"));
+      await assert.rejects(
+        buildFromSource(
+          { enabled: true, sourcePath: "" },
+          getDefaultReleaseSource(),
+          "v0.2.0",
+          "Linux",
+          "riscv64",
+        ),
+        { message: /Go was not found on PATH/ },
+      );
+    });
+  });
+});
+
+/**
+ * Write a fake go that logs its arguments and creates the binary
+ */
+function writeFakeGo(filePath: string, logPath: string): void {
+  fs.writeFileSync(
+    filePath,
+    `#!/bin/sh
+echo "$*" >> "${logPath}"
+echo "cwd $(pwd)" >> "${logPath}"
+if [ "$1" = "install" ]; then
+  touch "$GOBIN/spectr"
+else
+  touch "$3"
+fi
+`,
+    { mode: 0o755 },
+  );
+}
@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, afterEach, before, describe, it } from "node:test";
+import {
+  getBinaryCacheKey,
+  getCachedReleaseList,
+  getReleaseListCacheKey,
+  getToolCachePath,
+  readReleaseList,
+  writeReleaseList,
+} from "../../../src/download/cache";
+import type { ReleaseInfo } from "../../../src/download/releases";
+import type { ReleaseSource } from "../../../src/download/source";
+import { mockEnv } from "../../helpers/test-utils";
+
+const SOURCE: ReleaseSource = {
+  apiUrl: "https://api.github.com",
+  downloadUrl: "https://github.com/{owner}/{repo}/releases/download",
+  owner: "connerohnesorge",
+  repo: "spectr",
+};
+
+const RELEASES: ReleaseInfo[] = [
+  { commitish: "main", draft: false, prerelease: true, tag: "v0.3.0-rc.1" },
+  { commitish: "main", draft: false, prerelease: false, tag: "v0.2.0" },
+];
+
+describe("cache.ts", () => {
+  let tempDir: string;
+  let restoreEnv: () => void = () => {};
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "spectr-cache-"));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { force: true, recursive: true });
+  });
+
+  afterEach(() => {
+    restoreEnv();
+  });
+
+  describe("cache keys", () => {
+    it("should key binaries by repository, version, platform and arch", () => {
+      assert.equal(
+        getBinaryCacheKey(SOURCE, "v0.1.0", "Linux", "arm64"),
+        "spectr-binary-connerohnesorge-spectr-v0.1.0-Linux-arm64",
+      );
+    });
+
+    it("should change the release list key every TTL", () => {
+      const hour = 60 * 60_000;
+      const first = getReleaseListCacheKey(SOURCE, 60, 5 * hour);
+      assert.equal(first, "spectr-releases-connerohnesorge-spectr-60m-5");
+      assert.equal(
+        getReleaseListCacheKey(SOURCE, 60, 5 * hour + 59_000),
+        first,
+      );
+      assert.notEqual(getReleaseListCacheKey(SOURCE, 60, 6 * hour), first);
+    });
+  });
+
+  describe("getToolCachePath", () => {
+    it("should match the tool cache layout", () => {
+      restoreEnv = mockEnv({ RUNNER_TOOL_CACHE: "/opt/hostedtoolcache" });
+      assert.equal(
+        getToolCachePath("v0.2.0", "x86_64"),
+        path.join("/opt/hostedtoolcache", "spectr", "0.2.0", "x86_64"),
+      );
+    });
+  });
+
+  describe("readReleaseList", () => {
+    const now = Date.parse("2026-01-01T12:00:00Z");
+
+    it("should read fresh lists", () => {
+      const filePath = path.join(tempDir, "fresh.json");
+      const list = {
+        fetchedAt: "2026-01-01T11:30:00.000Z",
+        releases: RELEASES,
+        repository: "connerohnesorge/spectr",
+      };
+      writeReleaseList(filePath, list);
+      assert.deepEqual(readReleaseList(filePath, SOURCE, 60, now), list);
+    });
+
+    it("should ignore expired lists and other repositories", () => {
+      const filePath = path.join(tempDir, "stale.json");
+      writeReleaseList(filePath, {
+        fetchedAt: "2026-01-01T10:00:00.000Z",
+        releases: RELEASES,
+        repository: "connerohnesorge/spectr",
+      });
+      assert.equal(readReleaseList(filePath, SOURCE, 60, now), undefined);
+      assert.equal(
+        readReleaseList(filePath, { ...SOURCE, owner: "acme" }, 600, now),
+        undefined,
+      );
+    });
+
+    it("should ignore missing and invalid files", () => {
+      const filePath = path.join(tempDir, "invalid.json");
+      fs.writeFileSync(filePath, "{");
+      assert.equal(readReleaseList(filePath, SOURCE, 60, now), undefined);
+      assert.equal(
+        readReleaseList(path.join(tempDir, "missing.json"), SOURCE, 60, now),
+        undefined,
+      );
+    });
+  });
+
+  describe("getCachedReleaseList", () => {
+    it("should list releases once while the list is fresh", async () => {
+      const runnerTemp = fs.mkdtempSync(path.join(tempDir, "temp-"));
+      restoreEnv = mockEnv({ RUNNER_TEMP: runnerTemp });
+      let calls = 0;
+      const listReleases = async () => {
+        calls++;
+        return RELEASES;
+      };
+      const config = { enabled: true, releaseListTtl: 60 };
+
+      assert.deepEqual(
+        await getCachedReleaseList(config, SOURCE, listReleases),
+        RELEASES,
+      );
+      assert.deepEqual(
+        await getCachedReleaseList(config, SOURCE, listReleases),
+        RELEASES,
+      );
+      assert.equal(calls, 1);
+    });
+
+    it("should always list releases when caching is off", async () => {
+      const runnerTemp = fs.mkdtempSync(path.join(tempDir, "temp-"));
+      restoreEnv = mockEnv({ RUNNER_TEMP: runnerTemp });
+      let calls = 0;
+      const listReleases = async () => {
+        calls++;
+        return RELEASES;
+      };
+
+      for (const config of [
+        { enabled: false, releaseListTtl: 60 },
+        { enabled: true, releaseListTtl: 0 },
+      ]) {
+        await getCachedReleaseList(config, SOURCE, listReleases);
+        await getCachedReleaseList(config, SOURCE, listReleases);
+      }
+      assert.equal(calls, 4);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, afterEach, before, describe, it } from "node:test";
+import {
+  calculateFileChecksum,
+  fetchReleaseChecksum,
+  parseChecksumFile,
+  validateChecksum,
+} from "../../../src/download/checksum";
+import {
+  getFixturePath,
+  mockEnv,
+  startTestServer,
+  type TestServer,
+} from "../../helpers/test-utils";
+
+const CHECKSUM_FIXTURE = getFixturePath("checksumfile");
+const FIXTURE_SHA256 =
+  "f3da96ec7e995debee7f5d52ecd034dfb7074309a1da42f76429ecb814d813a3";
+
+describe("checksum.ts", () => {
+  describe("calculateFileChecksum", () => {
+    it("should compute the SHA-256 digest of a file", async () => {
+      const digest = await calculateFileChecksum(CHECKSUM_FIXTURE);
+      assert.equal(digest, FIXTURE_SHA256);
+    });
+  });
+
+  describe("parseChecksumFile", () => {
+    it("should map file names to digests", () => {
+      const content = [
+        `${"a".repeat(64)}  spectr_Linux_x86_64.tar.gz`,
+        `${"B".repeat(64)}  spectr_Windows_x86_64.zip`,
+        "",
+      ].join("\n");
+
+      const checksums = parseChecksumFile(content);
+      assert.equal(checksums.size, 2);
+      assert.equal(checksums.get("spectr_Linux_x86_64.tar.gz"), "a".repeat(64));
+      assert.equal(checksums.get("spectr_Windows_x86_64.zip"), "b".repeat(64));
+    });
+
+    it("should handle CRLF line endings and binary-mode markers", () => {
+      const content = `${"c".repeat(64)} *spectr_Darwin_arm64.tar.gz\r\n`;
+      const checksums = parseChecksumFile(content);
+      assert.equal(checksums.get("spectr_Darwin_arm64.tar.gz"), "c".repeat(64));
+    });
+
+    it("should ignore malformed lines", () => {
+      const checksums = parseChecksumFile("not a checksum line\nabc  file");
+      assert.equal(checksums.size, 0);
+    });
+  });
+
+  describe("validateChecksum", () => {
+    it("should pass with a matching pinned checksum", async () => {
+      await validateChecksum(
+        CHECKSUM_FIXTURE,
+        "spectr_Linux_x86_64.tar.gz",
+        "v0.1.0",
+        FIXTURE_SHA256,
+        "",
+      );
+    });
+
+    it("should accept uppercase pinned checksums with a sha256: prefix", async () => {
+      await validateChecksum(
+        CHECKSUM_FIXTURE,
+        "spectr_Linux_x86_64.tar.gz",
+        "v0.1.0",
+        `sha256:${FIXTURE_SHA256.toUpperCase()}`,
+        "",
+      );
+    });
+
+    it("should throw on a mismatching pinned checksum", async () => {
+      await assert.rejects(
+        validateChecksum(
+          CHECKSUM_FIXTURE,
+          "spectr_Linux_x86_64.tar.gz",
+          "v0.1.0",
+          "0".repeat(64),
+          "",
+        ),
+        { message: /Checksum mismatch for spectr_Linux_x86_64.tar.gz/ },
+      );
+    });
+
+    it("should throw on a malformed pinned checksum", async () => {
+      await assert.rejects(
+        validateChecksum(
+          CHECKSUM_FIXTURE,
+          "spectr_Linux_x86_64.tar.gz",
+          "v0.1.0",
+          "not-a-digest",
+          "",
+        ),
+        { message: /Invalid SHA-256 checksum/ },
+      );
+    });
+  });
+
+  describe("fetchReleaseChecksum", () => {
+    let server: TestServer;
+    let tempDir: string;
+    let restoreEnv: () => void = () => {};
+
+    before(async () => {
+      server = await startTestServer({
+        "/mirror/spectr/v0.1.0/checksums.txt": {
+          body: `${FIXTURE_SHA256}  spectr_Linux_x86_64.tar.gz\n`,
+        },
+      });
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "spectr-checksum-"));
+    });
+
+    after(async () => {
+      await server.close();
+      fs.rmSync(tempDir, { force: true, recursive: true });
+    });
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should download the checksums file from a mirror", async () => {
+      restoreEnv = mockEnv({
+        GITHUB_SERVER_URL: "https://github.com",
+        RUNNER_TEMP: tempDir,
+      });
+      const checksum = await fetchReleaseChecksum(
+        "v0.1.0",
+        "spectr_Linux_x86_64.tar.gz",
+        "secret-token",
+        {
+          apiUrl: "https://api.github.com",
+          downloadUrl: `${server.url}/mirror/{repo}`,
+          owner: "connerohnesorge",
+          repo: "spectr",
+        },
+      );
+      assert.equal(checksum, FIXTURE_SHA256);
+      const request = server.requests.at(-1);
+      assert.equal(request?.url, "/mirror/spectr/v0.1.0/checksums.txt");
+      assert.equal(request?.headers.authorization, undefined);
+    });
+  });
+});
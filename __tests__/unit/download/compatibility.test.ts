@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  checkVersionCompatibility,
+  isSupportedVersion,
+  maxCompatibleVersion,
+} from "../../../src/download/compatibility";
+
+describe("compatibility.ts", () => {
+  describe("isSupportedVersion", () => {
+    it("should accept versions in the range", () => {
+      assert.equal(isSupportedVersion("v0.1.0", ">=0.1.0 <1.0.0"), true);
+      assert.equal(isSupportedVersion("0.9.3", ">=0.1.0 <1.0.0"), true);
+    });
+
+    it("should reject versions outside the range", () => {
+      assert.equal(isSupportedVersion("v0.0.9", ">=0.1.0 <1.0.0"), false);
+      assert.equal(isSupportedVersion("v1.0.0", ">=0.1.0 <1.0.0"), false);
+    });
+
+    it("should compare prereleases like their release", () => {
+      assert.equal(isSupportedVersion("v0.2.0-rc.1", ">=0.1.0 <1.0.0"), true);
+    });
+
+    it("should return undefined for non-semver versions", () => {
+      assert.equal(isSupportedVersion("main", ">=0.1.0 <1.0.0"), undefined);
+    });
+  });
+
+  describe("checkVersionCompatibility", () => {
+    it("should throw for unsupported versions in error mode", () => {
+      assert.throws(
+        () => checkVersionCompatibility("v1.2.0", "error", ">=0.1.0 <1.0.0"),
+        {
+          message:
+            /Spectr v1\.2\.0 is outside the range supported by this action \(>=0\.1\.0 <1\.0\.0\)/,
+        },
+      );
+    });
+
+    it("should not throw in warning or ignore mode", () => {
+      assert.doesNotThrow(() =>
+        checkVersionCompatibility("v1.2.0", "warning", ">=0.1.0 <1.0.0"),
+      );
+      assert.doesNotThrow(() =>
+        checkVersionCompatibility("v1.2.0", "ignore", ">=0.1.0 <1.0.0"),
+      );
+    });
+
+    it("should accept supported and non-semver versions", () => {
+      assert.doesNotThrow(() =>
+        checkVersionCompatibility("v0.4.0", "error", ">=0.1.0 <1.0.0"),
+      );
+      assert.doesNotThrow(() =>
+        checkVersionCompatibility("local-build", "error", ">=0.1.0 <1.0.0"),
+      );
+    });
+  });
+
+  describe("maxCompatibleVersion", () => {
+    it("should pick the newest release in the range", () => {
+      assert.equal(
+        maxCompatibleVersion(
+          ["v1.1.0", "v1.0.0", "v0.9.1", "v0.10.0", "v0.2.0"],
+          ">=0.1.0 <1.0.0",
+        ),
+        "v0.10.0",
+      );
+    });
+
+    it("should skip prereleases and tags that are not semver", () => {
+      assert.equal(
+        maxCompatibleVersion(
+          ["nightly", "v0.4.0-rc.1", "v0.3.0"],
+          ">=0.1.0 <1.0.0",
+        ),
+        "v0.3.0",
+      );
+    });
+
+    it("should return undefined when nothing matches", () => {
+      assert.equal(
+        maxCompatibleVersion(["v1.0.0", "v2.0.0"], ">=0.1.0 <1.0.0"),
+        undefined,
+      );
+    });
+  });
+});
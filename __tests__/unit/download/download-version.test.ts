@@ -1,6 +1,31 @@
 import assert from "node:assert/strict";
-import { describe, it } from "node:test";
-import { resolveVersion } from "../../../src/download/download-version";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, afterEach, before, describe, it } from "node:test";
+import * as tc from "@actions/tool-cache";
+import {
+  getAssetName,
+  getReleaseAssetNames,
+  resolveCachedVersion,
+  resolveVersion,
+  tryGetFromToolCache,
+} from "../../../src/download/download-version";
+import type { ReleaseSource } from "../../../src/download/source";
+import {
+  mockEnv,
+  startTestServer,
+  type TestServer,
+} from "../../helpers/test-utils";
+
+function release(tag: string, prerelease = false, commitish = "main") {
+  return {
+    draft: false,
+    prerelease,
+    tag_name: tag,
+    target_commitish: commitish,
+  };
+}
 
 describe("resolveVersion", () => {
   it("prefixes explicit versions without leading v", async () => {
@@ -12,4 +37,219 @@ describe("resolveVersion", () => {
     const version = await resolveVersion("v0.1.0", "");
     assert.equal(version, "v0.1.0");
   });
+
+  describe("with a custom API", () => {
+    let server: TestServer;
+    let source: ReleaseSource;
+
+    before(async () => {
+      server = await startTestServer({
+        "/api/v3/repos/acme/spectr-mirror/releases": {
+          body: [
+            release(
+              "nightly-2026-01-02",
+              true,
+              "0a1b2c3d4e5f60718293a4b5c6d7e8f901234567",
+            ),
+            release("v1.1.0-rc.1", true),
+            release("v1.0.0"),
+            release("v0.5.0-rc.1", true),
+            release("v0.4.1"),
+            release("v0.4.0"),
+          ],
+        },
+        "/api/v3/repos/acme/spectr-mirror/releases/latest": {
+          body: { tag_name: "v1.0.0" },
+        },
+        "/api/v3/repos/acme/spectr-mirror/releases/tags/v1.0.0": {
+          body: {
+            assets: [{ name: "spectr_Linux_x86_64.tar.gz" }],
+            tag_name: "v1.0.0",
+          },
+        },
+      });
+      source = {
+        apiUrl: `${server.url}/api/v3`,
+        downloadUrl: `${server.url}/downloads`,
+        owner: "acme",
+        repo: "spectr-mirror",
+      };
+    });
+
+    after(async () => {
+      await server.close();
+    });
+
+    it("resolves latest from the configured repository", async () => {
+      const version = await resolveVersion("latest", "token", { source });
+      assert.equal(version, "v1.0.0");
+    });
+
+    it("resolves ranges from the configured repository", async () => {
+      const version = await resolveVersion("0.4.x", "token", { source });
+      assert.equal(version, "v0.4.1");
+    });
+
+    it("resolves latest compatible releases", async () => {
+      const version = await resolveVersion("latest", "token", {
+        latestCompatible: true,
+        source,
+      });
+      assert.equal(version, "v0.4.1");
+    });
+
+    it("resolves latest to prereleases when they are included", async () => {
+      const version = await resolveVersion("latest", "token", {
+        includePrereleases: true,
+        source,
+      });
+      assert.equal(version, "v1.1.0-rc.1");
+    });
+
+    it("resolves prerelease ranges and channels", async () => {
+      assert.equal(
+        await resolveVersion(">=0.5.0-rc.1 <1.0.0", "token", { source }),
+        "v0.5.0-rc.1",
+      );
+      assert.equal(
+        await resolveVersion("prerelease", "token", { source }),
+        "v1.1.0-rc.1",
+      );
+      assert.equal(
+        await resolveVersion("nightly", "token", { source }),
+        "nightly-2026-01-02",
+      );
+    });
+
+    it("resolves commit SHAs to the release built from them", async () => {
+      const version = await resolveVersion("0a1b2c3", "token", { source });
+      assert.equal(version, "nightly-2026-01-02");
+    });
+
+    it("lists the assets of a release", async () => {
+      assert.deepEqual(await getReleaseAssetNames("v1.0.0", "token", source), [
+        "spectr_Linux_x86_64.tar.gz",
+      ]);
+      assert.equal(
+        await getReleaseAssetNames("v9.9.9", "token", source),
+        undefined,
+      );
+    });
+
+    it("does not send the token to other APIs", async () => {
+      await resolveVersion("latest", "token", { source });
+      assert.ok(server.requests.length > 0);
+      assert.ok(
+        server.requests.every((request) => !request.headers.authorization),
+      );
+    });
+
+    it("fails when no release matches", async () => {
+      await assert.rejects(
+        resolveVersion("2.x", "token", { source }),
+        /No version found for 2.x/,
+      );
+    });
+  });
+});
+
+describe("getAssetName", () => {
+  it("names archives like GoReleaser", () => {
+    assert.equal(getAssetName("Linux", "x86_64"), "spectr_Linux_x86_64.tar.gz");
+    assert.equal(getAssetName("Windows", "arm64"), "spectr_Windows_arm64.zip");
+  });
+});
+
+describe("tryGetFromToolCache", () => {
+  let tempDir: string;
+  let restoreEnv: () => void = () => {};
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "spectr-find-"));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { force: true, recursive: true });
+  });
+
+  afterEach(() => {
+    restoreEnv();
+  });
+
+  it("finds versions cached by cacheDir", async () => {
+    restoreEnv = mockEnv({
+      RUNNER_TEMP: path.join(tempDir, "temp"),
+      RUNNER_TOOL_CACHE: path.join(tempDir, "cache"),
+    });
+    const binDir = fs.mkdtempSync(path.join(tempDir, "bin-"));
+    fs.writeFileSync(path.join(binDir, "spectr"), "");
+
+    for (const version of ["v0.4.2", "nightly-abcdef1"]) {
+      const cachedDir = await tc.cacheDir(binDir, "spectr", version, "x86_64");
+      assert.deepEqual(tryGetFromToolCache("x86_64", version), {
+        installedPath: cachedDir,
+        version: version === "v0.4.2" ? "0.4.2" : version,
+      });
+    }
+    assert.equal(
+      tryGetFromToolCache("x86_64", "nightly-0000000").installedPath,
+      undefined,
+    );
+  });
+});
+
+describe("resolveCachedVersion", () => {
+  let toolCache: string;
+  let restoreEnv: () => void = () => {};
+
+  before(() => {
+    toolCache = fs.mkdtempSync(path.join(os.tmpdir(), "spectr-tool-cache-"));
+    for (const version of ["0.3.0", "0.4.2", "1.0.0", "1.1.0-rc.1"]) {
+      const versionDir = path.join(toolCache, "spectr", version);
+      fs.mkdirSync(path.join(versionDir, "x86_64"), { recursive: true });
+      fs.writeFileSync(path.join(versionDir, "x86_64.complete"), "");
+    }
+    // Incomplete entries are ignored
+    fs.mkdirSync(path.join(toolCache, "spectr", "0.5.0", "x86_64"), {
+      recursive: true,
+    });
+  });
+
+  after(() => {
+    fs.rmSync(toolCache, { force: true, recursive: true });
+  });
+
+  afterEach(() => {
+    restoreEnv();
+  });
+
+  it("resolves latest to the newest cached release", () => {
+    restoreEnv = mockEnv({ RUNNER_TOOL_CACHE: toolCache });
+    assert.equal(resolveCachedVersion("x86_64", "latest"), "v1.0.0");
+  });
+
+  it("resolves latest compatible to the newest supported release", () => {
+    restoreEnv = mockEnv({ RUNNER_TOOL_CACHE: toolCache });
+    assert.equal(resolveCachedVersion("x86_64", "latest", true), "v0.4.2");
+  });
+
+  it("resolves ranges and explicit versions", () => {
+    restoreEnv = mockEnv({ RUNNER_TOOL_CACHE: toolCache });
+    assert.equal(resolveCachedVersion("x86_64", "^0.3"), "v0.3.0");
+    assert.equal(resolveCachedVersion("x86_64", "0.x"), "v0.4.2");
+    assert.equal(resolveCachedVersion("x86_64", "v1.0.0"), "v1.0.0");
+  });
+
+  it("returns undefined when nothing cached satisfies the input", () => {
+    restoreEnv = mockEnv({ RUNNER_TOOL_CACHE: toolCache });
+    assert.equal(resolveCachedVersion("x86_64", "0.5.0"), undefined);
+    assert.equal(resolveCachedVersion("arm64", "latest"), undefined);
+  });
+
+  it("never resolves channels and commit SHAs from the cache", () => {
+    restoreEnv = mockEnv({ RUNNER_TOOL_CACHE: toolCache });
+    assert.equal(resolveCachedVersion("x86_64", "nightly"), undefined);
+    assert.equal(resolveCachedVersion("x86_64", "prerelease"), undefined);
+    assert.equal(resolveCachedVersion("x86_64", "0a1b2c3"), undefined);
+  });
 });
@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  isCommitSha,
+  isReleaseChannel,
+  type ReleaseInfo,
+  selectByCommit,
+  selectNewest,
+  selectRelease,
+} from "../../../src/download/releases";
+
+const SHA = "0a1b2c3d4e5f60718293a4b5c6d7e8f901234567";
+
+const RELEASES: ReleaseInfo[] = [
+  { commitish: "main", draft: true, prerelease: false, tag: "v2.0.0" },
+  { commitish: SHA, draft: false, prerelease: true, tag: "nightly-20260102" },
+  { commitish: "main", draft: false, prerelease: true, tag: "v1.1.0-rc.1" },
+  { commitish: "main", draft: false, prerelease: false, tag: "v1.0.0" },
+  { commitish: "main", draft: false, prerelease: true, tag: "v0.5.0-rc.1" },
+  { commitish: "main", draft: false, prerelease: false, tag: "v0.4.1" },
+];
+
+const OPTIONS = { commitTagPattern: "*{sha}*", includePrereleases: false };
+
+describe("releases.ts", () => {
+  describe("isReleaseChannel", () => {
+    it("should accept the channels", () => {
+      assert.equal(isReleaseChannel("prerelease"), true);
+      assert.equal(isReleaseChannel("nightly"), true);
+      assert.equal(isReleaseChannel("latest"), false);
+    });
+  });
+
+  describe("isCommitSha", () => {
+    it("should accept abbreviated and full SHAs", () => {
+      assert.equal(isCommitSha("0a1b2c3"), true);
+      assert.equal(isCommitSha(SHA.toUpperCase()), true);
+    });
+
+    it("should reject short SHAs and versions", () => {
+      assert.equal(isCommitSha("0a1b2c"), false);
+      assert.equal(isCommitSha("1.0.0"), false);
+    });
+  });
+
+  describe("selectRelease", () => {
+    it("should exclude prereleases from latest and ranges by default", () => {
+      assert.equal(selectRelease(RELEASES, "latest", OPTIONS), "v1.0.0");
+      assert.equal(selectRelease(RELEASES, ">=0.5.0", OPTIONS), "v1.0.0");
+    });
+
+    it("should include prereleases when asked", () => {
+      const options = { ...OPTIONS, includePrereleases: true };
+      assert.equal(selectRelease(RELEASES, "latest", options), "v1.1.0-rc.1");
+      assert.equal(selectRelease(RELEASES, "0.x", options), "v0.5.0-rc.1");
+    });
+
+    it("should match prereleases named by the range", () => {
+      assert.equal(
+        selectRelease(RELEASES, ">=0.5.0-rc.1 <1.0.0", OPTIONS),
+        "v0.5.0-rc.1",
+      );
+    });
+
+    it("should never select drafts", () => {
+      assert.equal(selectRelease(RELEASES, "2.x", OPTIONS), undefined);
+    });
+
+    it("should select the newest prerelease", () => {
+      assert.equal(
+        selectRelease(RELEASES, "prerelease", OPTIONS),
+        "v1.1.0-rc.1",
+      );
+    });
+
+    it("should select the most recent nightly", () => {
+      assert.equal(
+        selectRelease(RELEASES, "nightly", OPTIONS),
+        "nightly-20260102",
+      );
+      assert.equal(
+        selectRelease(RELEASES.slice(2), "nightly", OPTIONS),
+        undefined,
+      );
+    });
+
+    it("should select releases by commit SHA", () => {
+      assert.equal(
+        selectRelease(RELEASES, SHA.substring(0, 9), OPTIONS),
+        "nightly-20260102",
+      );
+    });
+  });
+
+  describe("selectNewest", () => {
+    it("should return undefined when nothing satisfies the range", () => {
+      assert.equal(selectNewest(RELEASES, "3.x", true), undefined);
+    });
+  });
+
+  describe("selectByCommit", () => {
+    const builds: ReleaseInfo[] = [
+      {
+        commitish: "main",
+        draft: false,
+        prerelease: true,
+        tag: "build-fedcba9",
+      },
+      {
+        commitish: "main",
+        draft: false,
+        prerelease: true,
+        tag: "build-0a1b2c3",
+      },
+    ];
+
+    it("should match abbreviated SHAs in tags", () => {
+      assert.equal(selectByCommit(builds, SHA, "build-{sha}"), "build-0a1b2c3");
+      assert.equal(
+        selectByCommit(builds, "FEDCBA9876", "build-{sha}"),
+        "build-fedcba9",
+      );
+    });
+
+    it("should not match other commits", () => {
+      assert.equal(selectByCommit(builds, "0a1b2c4", "build-{sha}"), undefined);
+      assert.equal(
+        selectByCommit(builds, "0a1b2c3", "nightly-{sha}"),
+        undefined,
+      );
+    });
+
+    it("should match the commit a release was created from", () => {
+      assert.equal(
+        selectByCommit(RELEASES, "0a1b2c3d", "build-{sha}"),
+        "nightly-20260102",
+      );
+    });
+  });
+});
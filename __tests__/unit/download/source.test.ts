@@ -0,0 +1,150 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import {
+  constructAssetUrl,
+  getApiToken,
+  getDefaultReleaseSource,
+  getDownloadToken,
+  parseRepository,
+  type ReleaseSource,
+} from "../../../src/download/source";
+import { mockEnv } from "../../helpers/test-utils";
+
+const SOURCE: ReleaseSource = {
+  apiUrl: "https://api.github.com",
+  downloadUrl:
+    "https://github.com/{owner}/{repo}/releases/download/{version}/{asset}",
+  owner: "connerohnesorge",
+  repo: "spectr",
+};
+
+describe("source.ts", () => {
+  let restoreEnv: () => void = () => {};
+
+  afterEach(() => {
+    restoreEnv();
+  });
+
+  describe("getDefaultReleaseSource", () => {
+    it("should use github.com on any GitHub instance", () => {
+      restoreEnv = mockEnv({
+        GITHUB_API_URL: "https://ghes.example.com/api/v3",
+      });
+      assert.deepEqual(getDefaultReleaseSource(), SOURCE);
+    });
+  });
+
+  describe("constructAssetUrl", () => {
+    it("should build upstream release URLs", () => {
+      assert.equal(
+        constructAssetUrl(SOURCE, "v0.1.0", "spectr_Linux_x86_64.tar.gz"),
+        "https://github.com/connerohnesorge/spectr/releases/download/v0.1.0/spectr_Linux_x86_64.tar.gz",
+      );
+    });
+
+    it("should fill in templates", () => {
+      const source = {
+        ...SOURCE,
+        downloadUrl:
+          "https://mirror.example.com/{repo}/{version}/files/{asset}",
+        repo: "spectr-fork",
+      };
+      assert.equal(
+        constructAssetUrl(source, "v0.2.0", "checksums.txt"),
+        "https://mirror.example.com/spectr-fork/v0.2.0/files/checksums.txt",
+      );
+    });
+
+    it("should append the version and asset to base URLs", () => {
+      const source = {
+        ...SOURCE,
+        downloadUrl: "https://mirror.example.com/spectr/",
+      };
+      assert.equal(
+        constructAssetUrl(source, "v0.2.0", "spectr_Windows_x86_64.zip"),
+        "https://mirror.example.com/spectr/v0.2.0/spectr_Windows_x86_64.zip",
+      );
+    });
+  });
+
+  describe("getDownloadToken", () => {
+    it("should send the token to github.com", () => {
+      restoreEnv = mockEnv({ GITHUB_SERVER_URL: "https://github.com" });
+      assert.equal(
+        getDownloadToken("https://github.com/o/r/releases/download/v1/a", "t"),
+        "t",
+      );
+    });
+
+    it("should send the token to the current GitHub instance", () => {
+      restoreEnv = mockEnv({ GITHUB_SERVER_URL: "https://ghes.example.com" });
+      assert.equal(
+        getDownloadToken("https://ghes.example.com/o/r/releases/a", "t"),
+        "t",
+      );
+    });
+
+    it("should send the token to github.com without a server URL", () => {
+      restoreEnv = mockEnv({ GITHUB_SERVER_URL: "" });
+      assert.equal(
+        getDownloadToken("https://github.com/o/r/releases/download/v1/a", "t"),
+        "t",
+      );
+    });
+
+    it("should not send a GHES token to github.com", () => {
+      restoreEnv = mockEnv({ GITHUB_SERVER_URL: "https://ghes.example.com" });
+      assert.equal(
+        getDownloadToken("https://github.com/o/r/releases/download/v1/a", "t"),
+        undefined,
+      );
+    });
+
+    it("should not send the token to mirrors", () => {
+      restoreEnv = mockEnv({ GITHUB_SERVER_URL: "https://github.com" });
+      assert.equal(
+        getDownloadToken("https://mirror.example.com/spectr/v1/a", "t"),
+        undefined,
+      );
+    });
+  });
+
+  describe("getApiToken", () => {
+    it("should send the token to the workflow's API", () => {
+      restoreEnv = mockEnv({ GITHUB_API_URL: "https://api.github.com" });
+      assert.equal(getApiToken(SOURCE, "t"), "t");
+    });
+
+    it("should not send a GHES token to api.github.com", () => {
+      restoreEnv = mockEnv({
+        GITHUB_API_URL: "https://ghes.example.com/api/v3",
+      });
+      assert.equal(getApiToken(SOURCE, "t"), undefined);
+      assert.equal(
+        getApiToken(
+          { ...SOURCE, apiUrl: "https://ghes.example.com/api/v3/" },
+          "t",
+        ),
+        "t",
+      );
+    });
+  });
+
+  describe("parseRepository", () => {
+    it("should split owner and repo", () => {
+      assert.deepEqual(parseRepository(" acme/spectr.mirror "), {
+        owner: "acme",
+        repo: "spectr.mirror",
+      });
+    });
+
+    it("should reject other forms", () => {
+      assert.throws(() => parseRepository("spectr"), {
+        message: /Invalid repository: spectr/,
+      });
+      assert.throws(() => parseRepository("https://github.com/a/b"), {
+        message: /Expected the form owner\/repo/,
+      });
+    });
+  });
+});
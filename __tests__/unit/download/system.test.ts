@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, afterEach, before, describe, it } from "node:test";
+import {
+  findSystemSpectr,
+  getSpectrVersion,
+  parseSpectrVersion,
+  satisfiesVersionInput,
+} from "../../../src/download/system";
+import { mockEnv } from "../../helpers/test-utils";
+
+describe("system.ts", () => {
+  describe("parseSpectrVersion", () => {
+    it("should parse the version from typical output", () => {
+      assert.equal(parseSpectrVersion("spectr version v0.1.0\n"), "v0.1.0");
+      assert.equal(parseSpectrVersion("0.2.3 (abc1234)"), "v0.2.3");
+      assert.equal(parseSpectrVersion("spectr 1.0.0-rc.1"), "v1.0.0-rc.1");
+    });
+
+    it("should return undefined without a version", () => {
+      assert.equal(parseSpectrVersion("spectr dev"), undefined);
+    });
+  });
+
+  describe("satisfiesVersionInput", () => {
+    it("should accept any version for latest", () => {
+      assert.equal(satisfiesVersionInput("v0.1.0", "latest"), true);
+      assert.equal(satisfiesVersionInput("unknown", "latest"), true);
+    });
+
+    it("should match explicit versions and ranges", () => {
+      assert.equal(satisfiesVersionInput("v0.1.0", "0.1.0"), true);
+      assert.equal(satisfiesVersionInput("v0.1.0", "v0.1.0"), true);
+      assert.equal(satisfiesVersionInput("v0.2.4", "^0.2"), true);
+      assert.equal(satisfiesVersionInput("v0.3.0", "^0.2"), false);
+    });
+
+    it("should not match unknown versions", () => {
+      assert.equal(satisfiesVersionInput("unknown", "0.1.0"), false);
+    });
+  });
+
+  describe("findSystemSpectr", { skip: process.platform === "win32" }, () => {
+    let binDir: string;
+    let restoreEnv: () => void = () => {};
+
+    before(() => {
+      binDir = fs.mkdtempSync(path.join(os.tmpdir(), "spectr-system-"));
+      writeFakeSpectr(path.join(binDir, "spectr"), "spectr version v0.2.1");
+      writeFakeSpectr(path.join(binDir, "spectr-dev"), "spectr dev build");
+    });
+
+    after(() => {
+      fs.rmSync(binDir, { force: true, recursive: true });
+    });
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should not look for spectr when always installing", async () => {
+      restoreEnv = mockEnv({ PATH: binDir });
+      const result = await findSystemSpectr(
+        { mode: "always", spectrPath: "" },
+        "latest",
+      );
+      assert.equal(result, undefined);
+    });
+
+    it("should find spectr on PATH", async () => {
+      restoreEnv = mockEnv({ PATH: binDir });
+      const result = await findSystemSpectr(
+        { mode: "prefer-system", spectrPath: "" },
+        "^0.2",
+      );
+      assert.deepEqual(result, {
+        path: path.join(binDir, "spectr"),
+        version: "v0.2.1",
+      });
+    });
+
+    it("should fall back to downloading when the version does not satisfy", async () => {
+      restoreEnv = mockEnv({ PATH: binDir });
+      const result = await findSystemSpectr(
+        { mode: "prefer-system", spectrPath: "" },
+        "0.3.0",
+      );
+      assert.equal(result, undefined);
+    });
+
+    it("should fail when the version does not satisfy and install is false", async () => {
+      restoreEnv = mockEnv({ PATH: binDir });
+      await assert.rejects(
+        findSystemSpectr({ mode: "never", spectrPath: "" }, "0.3.0"),
+        { message: /reports version v0\.2\.1, which does not satisfy/ },
+      );
+    });
+
+    it("should fail when spectr is missing and install is false", async () => {
+      const emptyDir = fs.mkdtempSync(path.join(os.tmpdir(), "spectr-empty-"));
+      restoreEnv = mockEnv({ PATH: emptyDir });
+      try {
+        await assert.rejects(
+          findSystemSpectr({ mode: "never", spectrPath: "" }, "latest"),
+          { message: /spectr was not found on PATH/ },
+        );
+      } finally {
+        fs.rmSync(emptyDir, { force: true, recursive: true });
+      }
+    });
+
+    it("should use spectr-path whatever the install mode", async () => {
+      const spectrPath = path.join(binDir, "spectr");
+      const result = await findSystemSpectr(
+        { mode: "always", spectrPath },
+        "0.2.1",
+      );
+      assert.deepEqual(result, { path: spectrPath, version: "v0.2.1" });
+    });
+
+    it("should fail when spectr-path does not exist", async () => {
+      await assert.rejects(
+        findSystemSpectr(
+          { mode: "always", spectrPath: path.join(binDir, "missing") },
+          "latest",
+        ),
+        { message: /spectr-path does not exist/ },
+      );
+    });
+
+    it("should report an unknown version when none is printed", async () => {
+      assert.equal(
+        await getSpectrVersion(path.join(binDir, "spectr-dev")),
+        "unknown",
+      );
+    });
+  });
+});
+
+function writeFakeSpectr(filePath: string, output: string): void {
+  fs.writeFileSync(filePath, `#!/bin/sh\necho "${output}"\n`, { mode: 0o755 });
+}
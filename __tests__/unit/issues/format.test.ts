@@ -13,6 +13,7 @@ import type {
 
 describe("format.ts", () => {
   const mockConfig: IssueSyncConfig = {
+    apiUrl: "https://api.github.com",
     closeOnArchive: true,
     enabled: true,
     githubToken: "test-token",
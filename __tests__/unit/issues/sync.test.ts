@@ -1,6 +1,7 @@
 import assert from "node:assert/strict";
 import { afterEach, beforeEach, describe, it, mock } from "node:test";
 import { createOctokitClient, getRepoContext } from "../../../src/issues/sync";
+import { GitHubApiError } from "../../../src/utils/github-api";
 
 describe("sync.ts", () => {
   describe("createOctokitClient", () => {
@@ -398,9 +399,7 @@ describe("sync.ts", () => {
         rest: {
           issues: {
             createLabel: async () => {
-              const error = new Error("Validation Failed") as any;
-              error.status = 422;
-              throw error;
+              throw new GitHubApiError("Validation Failed", "request", 422);
             },
             listLabelsForRepo: {},
           },
@@ -0,0 +1,264 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import {
+  applyBaseline,
+  BASELINE_VERSION,
+  countUnmatched,
+  createBaseline,
+  fingerprintIssue,
+  indexBaseline,
+  readBaselineFile,
+  writeBaselineFile,
+} from "../../../src/reports/baseline";
+import type { ReportedIssue } from "../../../src/reports/types";
+import { outputFails, type ValidationOutput } from "../../../src/types/spectr";
+import { createReportedIssue } from "../../helpers/test-utils";
+
+const createOutput = (issues: ReportedIssue[]): ValidationOutput => [
+  {
+    name: "auth",
+    report: {
+      issues: issues.map(({ level, line, message, path }) => ({
+        level,
+        line,
+        message,
+        path,
+      })),
+      summary: {
+        errors: issues.filter((i) => i.level === "ERROR").length,
+        info: issues.filter((i) => i.level === "INFO").length,
+        warnings: issues.filter((i) => i.level === "WARNING").length,
+      },
+      valid: !issues.some((i) => i.level === "ERROR"),
+    },
+    type: "spec",
+    valid: !issues.some((i) => i.level === "ERROR"),
+  },
+];
+
+describe("baseline.ts", () => {
+  const workspace = path.resolve("/workspace");
+
+  describe("fingerprintIssue", () => {
+    it("should ignore line numbers and whitespace", () => {
+      assert.equal(
+        fingerprintIssue(
+          createReportedIssue({
+            level: "WARNING",
+            line: 3,
+            message: "Purpose  is short",
+          }),
+        ),
+        fingerprintIssue(
+          createReportedIssue({
+            level: "WARNING",
+            line: 40,
+            message: " Purpose is short",
+          }),
+        ),
+      );
+    });
+
+    it("should normalize path separators", () => {
+      assert.equal(
+        fingerprintIssue({
+          file: "spectr\\specs\\auth\\spec.md",
+          level: "ERROR",
+          message: "m",
+        }),
+        fingerprintIssue({
+          file: "spectr/specs/auth/spec.md",
+          level: "ERROR",
+          message: "m",
+        }),
+      );
+    });
+
+    it("should distinguish levels, messages and files", () => {
+      const base = fingerprintIssue(
+        createReportedIssue({ level: "WARNING", message: "Message" }),
+      );
+      assert.notEqual(
+        base,
+        fingerprintIssue(createReportedIssue({ message: "Message" })),
+      );
+      assert.notEqual(
+        base,
+        fingerprintIssue(
+          createReportedIssue({ level: "WARNING", message: "Other" }),
+        ),
+      );
+      assert.notEqual(
+        base,
+        fingerprintIssue({
+          ...createReportedIssue({ level: "WARNING", message: "Message" }),
+          file: "other.md",
+        }),
+      );
+    });
+  });
+
+  describe("createBaseline", () => {
+    it("should record one sorted entry per issue", () => {
+      const baseline = createBaseline([
+        createReportedIssue({ level: "WARNING", message: "b" }),
+        createReportedIssue({ message: "a" }),
+        createReportedIssue({ level: "WARNING", message: "b" }),
+      ]);
+      assert.equal(baseline.version, BASELINE_VERSION);
+      assert.deepEqual(
+        baseline.issues.map((entry) => `${entry.level}:${entry.message}`),
+        ["ERROR:a", "WARNING:b", "WARNING:b"],
+      );
+    });
+  });
+
+  describe("applyBaseline", () => {
+    it("should remove matched issues and recount the summary", () => {
+      const index = indexBaseline(
+        createBaseline([createReportedIssue({ line: 1, message: "Known" })]),
+      );
+      const { output, matched } = applyBaseline(
+        createOutput([
+          createReportedIssue({ line: 12, message: "Known" }),
+          createReportedIssue({ level: "WARNING", line: 2, message: "New" }),
+        ]),
+        index,
+        ".",
+        workspace,
+        workspace,
+      );
+
+      assert.equal(matched.length, 1);
+      assert.equal(matched[0].message, "Known");
+      assert.equal(matched[0].line, 12);
+      assert.deepEqual(
+        output[0].report?.issues.map((issue) => issue.message),
+        ["New"],
+      );
+      assert.deepEqual(output[0].report?.summary, {
+        errors: 0,
+        info: 0,
+        warnings: 1,
+      });
+      assert.equal(output[0].valid, true);
+    });
+
+    it("should match duplicates only as often as they are recorded", () => {
+      const index = indexBaseline(
+        createBaseline([
+          createReportedIssue({ level: "WARNING", message: "Dup" }),
+        ]),
+      );
+      const { output, matched } = applyBaseline(
+        createOutput([
+          createReportedIssue({ level: "WARNING", message: "Dup" }),
+          createReportedIssue({ level: "WARNING", message: "Dup" }),
+        ]),
+        index,
+        ".",
+        workspace,
+        workspace,
+      );
+
+      assert.equal(matched.length, 1);
+      assert.equal(output[0].report?.issues.length, 1);
+      assert.equal(countUnmatched(index), 0);
+    });
+
+    it("should keep results spectr could not validate", () => {
+      const failed: ValidationOutput = [
+        {
+          error: "failed to parse spec",
+          name: "auth",
+          type: "spec",
+          valid: false,
+        },
+      ];
+      const { output, matched } = applyBaseline(
+        failed,
+        indexBaseline(createBaseline([])),
+        ".",
+        workspace,
+        workspace,
+      );
+
+      assert.equal(matched.length, 0);
+      assert.deepEqual(output, failed);
+      assert.equal(outputFails(output, "error"), true);
+    });
+
+    it("should count entries that no longer match", () => {
+      const index = indexBaseline(
+        createBaseline([
+          createReportedIssue({ level: "WARNING", message: "Fixed" }),
+          createReportedIssue({ level: "WARNING", message: "Also fixed" }),
+        ]),
+      );
+      applyBaseline(createOutput([]), index, ".", workspace, workspace);
+      assert.equal(countUnmatched(index), 2);
+    });
+  });
+
+  describe("baseline files", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "spectr-test-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { force: true, recursive: true });
+    });
+
+    it("should round-trip a baseline", async () => {
+      const baseline = createBaseline([
+        createReportedIssue({ level: "WARNING", message: "Known" }),
+      ]);
+      const filePath = await writeBaselineFile(
+        path.join(tempDir, "nested", "baseline.json"),
+        baseline,
+      );
+      assert.deepEqual(readBaselineFile(filePath), baseline);
+    });
+
+    it("should throw for a missing file", () => {
+      assert.throws(
+        () => readBaselineFile(path.join(tempDir, "missing.json")),
+        {
+          message: /Baseline file not found/,
+        },
+      );
+    });
+
+    it("should throw for invalid JSON", () => {
+      const filePath = path.join(tempDir, "baseline.json");
+      fs.writeFileSync(filePath, "{");
+      assert.throws(() => readBaselineFile(filePath), {
+        message: /Invalid baseline file/,
+      });
+    });
+
+    it("should throw for an unsupported version", () => {
+      const filePath = path.join(tempDir, "baseline.json");
+      fs.writeFileSync(filePath, JSON.stringify({ issues: [], version: 2 }));
+      assert.throws(() => readBaselineFile(filePath), {
+        message: /Unsupported baseline version/,
+      });
+    });
+
+    it("should throw for entries without a fingerprint", () => {
+      const filePath = path.join(tempDir, "baseline.json");
+      fs.writeFileSync(
+        filePath,
+        JSON.stringify({ issues: [{ file: "a.md" }], version: 1 }),
+      );
+      assert.throws(() => readBaselineFile(filePath), {
+        message: /every issue needs a fingerprint/,
+      });
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, describe, it } from "node:test";
+import {
+  formatCheckRunSummary,
+  getHeadSha,
+  MAX_ANNOTATIONS_PER_REQUEST,
+  publishCheckRun,
+  toCheckRunAnnotation,
+} from "../../../src/reports/check-run";
+import { createReportedIssue, mockEnv } from "../../helpers/test-utils";
+
+const DOCS_ISSUE = {
+  file: "docs/spectr/specs/auth/spec.md",
+  project: "docs",
+};
+
+function createMockOctokit() {
+  const calls: Array<{ method: string; params: Record<string, unknown> }> = [];
+  const octokit = {
+    rest: {
+      checks: {
+        create: async (params: Record<string, unknown>) => {
+          calls.push({ method: "create", params });
+          return { data: { id: 42 } };
+        },
+        update: async (params: Record<string, unknown>) => {
+          calls.push({ method: "update", params });
+          return { data: {} };
+        },
+      },
+    },
+  };
+  return {
+    calls,
+    octokit: octokit as unknown as Parameters<typeof publishCheckRun>[0],
+  };
+}
+
+const options = {
+  headSha: "abc123",
+  name: "Spectr validation",
+  passed: false,
+  showProjectName: false,
+  summary: "summary",
+};
+
+describe("check-run.ts", () => {
+  describe("toCheckRunAnnotation", () => {
+    it("should map levels and locations", () => {
+      assert.deepEqual(
+        toCheckRunAnnotation(
+          createReportedIssue({
+            ...DOCS_ISSUE,
+            line: 5,
+            message: "ERROR message",
+          }),
+          false,
+        ),
+        {
+          annotation_level: "failure",
+          end_line: 5,
+          message: "ERROR message",
+          path: "docs/spectr/specs/auth/spec.md",
+          start_line: 5,
+          title: "spec: auth",
+        },
+      );
+      assert.equal(
+        toCheckRunAnnotation(
+          createReportedIssue({
+            ...DOCS_ISSUE,
+            level: "WARNING",
+            message: "WARNING message",
+          }),
+          false,
+        ).annotation_level,
+        "warning",
+      );
+      assert.equal(
+        toCheckRunAnnotation(
+          createReportedIssue({
+            ...DOCS_ISSUE,
+            level: "INFO",
+            message: "INFO message",
+          }),
+          false,
+        ).start_line,
+        1,
+      );
+    });
+
+    it("should prefix titles with the project name", () => {
+      assert.equal(
+        toCheckRunAnnotation(
+          createReportedIssue({
+            ...DOCS_ISSUE,
+            level: "INFO",
+            message: "INFO message",
+          }),
+          true,
+        ).title,
+        "docs › spec: auth",
+      );
+    });
+  });
+
+  describe("publishCheckRun", () => {
+    it("should upload annotations in batches of 50", async () => {
+      const { calls, octokit } = createMockOctokit();
+      const issues = Array.from({ length: 120 }, () =>
+        createReportedIssue({
+          ...DOCS_ISSUE,
+          line: 1,
+          message: "ERROR message",
+        }),
+      );
+
+      const id = await publishCheckRun(
+        octokit,
+        { owner: "owner", repo: "repo" },
+        issues,
+        options,
+      );
+
+      assert.equal(id, 42);
+      assert.deepEqual(
+        calls.map((call) => call.method),
+        ["create", "update", "update", "update"],
+      );
+      const batchSizes = calls.map(
+        (call) =>
+          (call.params.output as { annotations?: unknown[] }).annotations
+            ?.length,
+      );
+      assert.deepEqual(batchSizes, [
+        MAX_ANNOTATIONS_PER_REQUEST,
+        MAX_ANNOTATIONS_PER_REQUEST,
+        20,
+        undefined,
+      ]);
+      assert.equal(calls[0].params.head_sha, "abc123");
+      assert.equal(calls[0].params.status, "in_progress");
+    });
+
+    it("should complete the check run with a conclusion", async () => {
+      const { calls, octokit } = createMockOctokit();
+
+      await publishCheckRun(octokit, { owner: "o", repo: "r" }, [], {
+        ...options,
+        passed: true,
+      });
+
+      assert.equal(calls.length, 2);
+      const final = calls[1].params;
+      assert.equal(final.check_run_id, 42);
+      assert.equal(final.status, "completed");
+      assert.equal(final.conclusion, "success");
+    });
+  });
+
+  describe("formatCheckRunSummary", () => {
+    it("should count issues per level", () => {
+      const summary = formatCheckRunSummary(
+        [
+          createReportedIssue({ ...DOCS_ISSUE, message: "ERROR message" }),
+          createReportedIssue({ ...DOCS_ISSUE, message: "ERROR message" }),
+          createReportedIssue({
+            ...DOCS_ISSUE,
+            level: "INFO",
+            message: "INFO message",
+          }),
+        ],
+        3,
+        "warning",
+      );
+      assert.match(summary, /Validated 3 items \(fail-on: `warning`\)/);
+      assert.match(summary, /\| 2 \| 0 \| 1 \|/);
+    });
+  });
+
+  describe("getHeadSha", () => {
+    let restoreEnv: () => void = () => {};
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should prefer the pull request head commit", () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "spectr-test-"));
+      const eventPath = path.join(tempDir, "event.json");
+      fs.writeFileSync(
+        eventPath,
+        JSON.stringify({ pull_request: { head: { sha: "head-sha" } } }),
+      );
+      restoreEnv = mockEnv({
+        GITHUB_EVENT_PATH: eventPath,
+        GITHUB_SHA: "merge-sha",
+      });
+
+      try {
+        assert.equal(getHeadSha(), "head-sha");
+      } finally {
+        fs.rmSync(tempDir, { force: true, recursive: true });
+      }
+    });
+
+    it("should fall back to GITHUB_SHA", () => {
+      restoreEnv = mockEnv({ GITHUB_EVENT_PATH: "", GITHUB_SHA: "push-sha" });
+      assert.equal(getHeadSha(), "push-sha");
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import assert from "node:assert/strict";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import {
+  collectIssues,
+  filterOutputByFiles,
+} from "../../../src/reports/collect";
+import type { ValidationOutput } from "../../../src/types/spectr";
+
+describe("collect.ts", () => {
+  const workspace = path.resolve("/workspace");
+
+  describe("collectIssues", () => {
+    it("should flatten issues with item and project details", () => {
+      const output: ValidationOutput = [
+        {
+          name: "auth",
+          report: {
+            issues: [
+              {
+                level: "ERROR",
+                line: 4,
+                message: "Missing scenario",
+                path: "spectr/specs/auth/spec.md",
+              },
+            ],
+            summary: { errors: 1, info: 0, warnings: 0 },
+            valid: false,
+          },
+          type: "spec",
+          valid: false,
+        },
+        {
+          error: "could not parse",
+          name: "broken",
+          type: "change",
+          valid: false,
+        },
+      ];
+
+      const issues = collectIssues(
+        output,
+        "docs",
+        path.join(workspace, "docs"),
+        workspace,
+      );
+
+      assert.equal(issues.length, 1);
+      assert.equal(issues[0].file, "docs/spectr/specs/auth/spec.md");
+      assert.equal(issues[0].itemName, "auth");
+      assert.equal(issues[0].itemType, "spec");
+      assert.equal(issues[0].project, "docs");
+      assert.equal(issues[0].line, 4);
+    });
+  });
+
+  describe("collectIssues locations", () => {
+    it("should take positions from the issue path", () => {
+      const [issue] = collectIssues(
+        [
+          {
+            name: "auth",
+            report: {
+              issues: [
+                {
+                  level: "WARNING",
+                  message: "Long line",
+                  path: "spectr\\specs\\auth\\spec.md:7:2",
+                },
+              ],
+              summary: { errors: 0, info: 0, warnings: 1 },
+              valid: true,
+            },
+            type: "spec",
+            valid: true,
+          },
+        ],
+        ".",
+        workspace,
+        workspace,
+      );
+
+      assert.equal(issue.file, "spectr/specs/auth/spec.md");
+      assert.equal(issue.line, 7);
+      assert.equal(issue.column, 2);
+      assert.equal(issue.endLine, undefined);
+    });
+  });
+
+  describe("filterOutputByFiles", () => {
+    const output: ValidationOutput = [
+      {
+        name: "auth",
+        report: {
+          issues: [
+            {
+              level: "ERROR",
+              line: 4,
+              message: "Missing scenario",
+              path: "spectr/specs/auth/spec.md",
+            },
+            {
+              level: "WARNING",
+              message: "Purpose is short",
+              path: "spectr/specs/billing/spec.md",
+            },
+          ],
+          summary: { errors: 1, info: 0, warnings: 1 },
+          valid: false,
+        },
+        type: "spec",
+        valid: false,
+      },
+      {
+        error: "could not parse",
+        name: "broken",
+        type: "change",
+        valid: false,
+      },
+    ];
+
+    it("should keep only issues on the given files and recount", () => {
+      const filtered = filterOutputByFiles(
+        output,
+        new Set(["docs/spectr/specs/billing/spec.md"]),
+        path.join(workspace, "docs"),
+        workspace,
+      );
+
+      assert.deepEqual(filtered[0].report?.issues, [
+        output[0].report?.issues[1],
+      ]);
+      assert.deepEqual(filtered[0].report?.summary, {
+        errors: 0,
+        info: 0,
+        warnings: 1,
+      });
+      assert.equal(filtered[0].valid, true);
+      assert.deepEqual(filtered[1], output[1]);
+    });
+
+    it("should leave the input untouched", () => {
+      filterOutputByFiles(output, new Set(), workspace, workspace);
+      assert.equal(output[0].report?.issues.length, 2);
+    });
+  });
+});
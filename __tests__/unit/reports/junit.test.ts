@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildJUnitReport, escapeXml } from "../../../src/reports/junit";
+import type { ProjectOutput } from "../../../src/reports/types";
+import { createReportedIssue } from "../../helpers/test-utils";
+
+const projectOutputs: ProjectOutput[] = [
+  {
+    output: [
+      {
+        name: "auth",
+        report: {
+          issues: [],
+          summary: { errors: 1, info: 0, warnings: 1 },
+          valid: false,
+        },
+        type: "spec",
+        valid: false,
+      },
+      {
+        name: "logging",
+        report: {
+          issues: [],
+          summary: { errors: 0, info: 0, warnings: 0 },
+          valid: true,
+        },
+        type: "spec",
+        valid: true,
+      },
+      {
+        error: "failed to parse proposal.md",
+        name: "add-2fa",
+        type: "change",
+        valid: false,
+      },
+    ],
+    project: ".",
+  },
+];
+
+const issues = [
+  createReportedIssue({ line: 7, message: "Requirement has no scenarios" }),
+  createReportedIssue({
+    level: "WARNING",
+    line: 7,
+    message: "Missing purpose",
+  }),
+];
+
+describe("junit.ts", () => {
+  describe("escapeXml", () => {
+    it("should escape markup characters", () => {
+      assert.equal(
+        escapeXml(`<a href="x">'&'</a>`),
+        "&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;",
+      );
+    });
+
+    it("should drop characters XML cannot represent", () => {
+      assert.equal(escapeXml("a\u0000b\u001Fc\td"), "abc\td");
+    });
+  });
+
+  describe("buildJUnitReport", () => {
+    it("should group test cases into suites by type", () => {
+      const xml = buildJUnitReport(projectOutputs, issues, "error");
+
+      assert.match(
+        xml,
+        /<testsuites name="spectr" tests="3" failures="1" errors="1"/,
+      );
+      assert.match(
+        xml,
+        /<testsuite name="changes" tests="1" failures="0" errors="1"/,
+      );
+      assert.match(
+        xml,
+        /<testsuite name="specs" tests="2" failures="1" errors="0"/,
+      );
+      assert.match(
+        xml,
+        /<testcase name="logging" classname="spec" time="0"\/>/,
+      );
+    });
+
+    it("should map failing issues to failures and the rest to system-out", () => {
+      const xml = buildJUnitReport(projectOutputs, issues, "error");
+
+      assert.match(
+        xml,
+        /<failure message="Requirement has no scenarios" type="ERROR">\[ERROR\] spectr\/specs\/auth\/spec.md:7: Requirement has no scenarios<\/failure>/,
+      );
+      assert.match(
+        xml,
+        /<system-out>\[WARNING\] spectr\/specs\/auth\/spec.md:7: Missing purpose<\/system-out>/,
+      );
+    });
+
+    it("should follow the fail-on policy", () => {
+      const xml = buildJUnitReport(projectOutputs, issues, "warning");
+      assert.match(xml, /Requirement has no scenarios \(and 1 more\)/);
+      assert.doesNotMatch(xml, /<system-out>/);
+    });
+
+    it("should map results that could not be validated to errors", () => {
+      const xml = buildJUnitReport(projectOutputs, issues, "error");
+      assert.match(
+        xml,
+        /<error message="failed to parse proposal.md" type="ValidationError"\/>/,
+      );
+    });
+
+    it("should name the project in class names for multiple projects", () => {
+      const xml = buildJUnitReport(
+        [
+          { output: projectOutputs[0].output, project: "docs" },
+          { output: [], project: "services/api" },
+        ],
+        [createReportedIssue({ line: 7, message: "Broken", project: "docs" })],
+        "error",
+      );
+      assert.match(xml, /classname="docs\/spec"/);
+      assert.match(xml, /failures="1"/);
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import {
+  findHeadingLine,
+  parseIssuePath,
+  resolveIssueFile,
+  resolveIssueLocation,
+} from "../../../src/reports/location";
+
+describe("location.ts", () => {
+  const workspace = path.resolve("/workspace");
+
+  describe("parseIssuePath", () => {
+    it("should return plain POSIX paths unchanged", () => {
+      assert.deepEqual(parseIssuePath("spectr/specs/auth/spec.md"), {
+        context: undefined,
+        filePath: "spectr/specs/auth/spec.md",
+      });
+    });
+
+    it("should parse line and column positions", () => {
+      assert.deepEqual(parseIssuePath("spectr/specs/auth/spec.md:12:3"), {
+        column: 3,
+        context: undefined,
+        endLine: undefined,
+        filePath: "spectr/specs/auth/spec.md",
+        line: 12,
+      });
+    });
+
+    it("should parse line ranges", () => {
+      const parsed = parseIssuePath("spectr/specs/auth/spec.md:12-18");
+      assert.equal(parsed.line, 12);
+      assert.equal(parsed.endLine, 18);
+      assert.equal(parsed.column, undefined);
+    });
+
+    it("should split off requirement context", () => {
+      assert.deepEqual(
+        parseIssuePath("spectr/specs/auth/spec.md: Requirement: Login"),
+        {
+          context: "Requirement: Login",
+          filePath: "spectr/specs/auth/spec.md",
+        },
+      );
+    });
+
+    it("should split off heading anchors", () => {
+      assert.deepEqual(parseIssuePath("spectr/specs/auth/spec.md#login"), {
+        context: "login",
+        filePath: "spectr/specs/auth/spec.md",
+      });
+    });
+
+    it("should keep Windows drive letters", () => {
+      assert.deepEqual(parseIssuePath("C:\\repo\\spectr\\spec.md:7:2"), {
+        column: 2,
+        context: undefined,
+        endLine: undefined,
+        filePath: "C:\\repo\\spectr\\spec.md",
+        line: 7,
+      });
+    });
+
+    it("should combine positions with context", () => {
+      const parsed = parseIssuePath("spectr/spec.md:4: Requirement: Login");
+      assert.equal(parsed.filePath, "spectr/spec.md");
+      assert.equal(parsed.line, 4);
+      assert.equal(parsed.context, "Requirement: Login");
+    });
+  });
+
+  describe("resolveIssueFile", () => {
+    it("should make project-relative paths workspace-relative", () => {
+      assert.equal(
+        resolveIssueFile(
+          "spectr/specs/auth/spec.md",
+          path.join(workspace, "docs"),
+          workspace,
+        ),
+        "docs/spectr/specs/auth/spec.md",
+      );
+    });
+
+    it("should strip trailing requirement context after a colon", () => {
+      assert.equal(
+        resolveIssueFile(
+          "spectr/specs/auth/spec.md: Requirement: Login",
+          workspace,
+          workspace,
+        ),
+        "spectr/specs/auth/spec.md",
+      );
+    });
+
+    it("should relativize absolute paths inside the workspace", () => {
+      assert.equal(
+        resolveIssueFile(
+          path.join(workspace, "spectr", "project.md"),
+          workspace,
+          workspace,
+        ),
+        "spectr/project.md",
+      );
+    });
+
+    it("should convert Windows separators in relative paths", () => {
+      assert.equal(
+        resolveIssueFile("spectr\\specs\\auth\\spec.md", workspace, workspace),
+        "spectr/specs/auth/spec.md",
+      );
+    });
+
+    it("should strip line and column positions", () => {
+      assert.equal(
+        resolveIssueFile(
+          "spectr/specs/auth/spec.md:12:3",
+          workspace,
+          workspace,
+        ),
+        "spectr/specs/auth/spec.md",
+      );
+    });
+
+    it("should resolve paths in a Windows workspace", () => {
+      assert.equal(
+        resolveIssueFile(
+          "spectr\\specs\\auth\\spec.md:4",
+          "D:\\a\\repo\\docs",
+          "D:\\a\\repo",
+        ),
+        "docs/spectr/specs/auth/spec.md",
+      );
+    });
+
+    it("should relativize absolute Windows paths", () => {
+      assert.equal(
+        resolveIssueFile(
+          "D:\\a\\repo\\spectr\\project.md: Purpose",
+          "D:\\a\\repo",
+          "D:\\a\\repo",
+        ),
+        "spectr/project.md",
+      );
+    });
+  });
+
+  describe("resolveIssueLocation", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "spectr-test-"));
+      fs.mkdirSync(path.join(tempDir, "spectr"));
+      fs.writeFileSync(
+        path.join(tempDir, "spectr", "spec.md"),
+        [
+          "# Auth",
+          "",
+          "## Requirements",
+          "",
+          "### Requirement: Login",
+          "",
+          "### Requirement: Logout",
+        ].join("\n"),
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { force: true, recursive: true });
+    });
+
+    it("should prefer explicit issue fields over the path", () => {
+      assert.deepEqual(
+        resolveIssueLocation(
+          {
+            column: 5,
+            endLine: 9,
+            level: "ERROR",
+            line: 6,
+            message: "m",
+            path: "spectr/spec.md:1:1",
+          },
+          tempDir,
+          tempDir,
+        ),
+        { endLine: 9, file: "spectr/spec.md", startColumn: 5, startLine: 6 },
+      );
+    });
+
+    it("should use positions from the path", () => {
+      assert.deepEqual(
+        resolveIssueLocation(
+          { level: "ERROR", message: "m", path: "spectr/spec.md:3-5" },
+          tempDir,
+          tempDir,
+        ),
+        {
+          endLine: 5,
+          file: "spectr/spec.md",
+          startColumn: undefined,
+          startLine: 3,
+        },
+      );
+    });
+
+    it("should look up the line of a requirement heading", () => {
+      const location = resolveIssueLocation(
+        {
+          level: "ERROR",
+          message: "m",
+          path: "spectr/spec.md: Requirement: Logout",
+        },
+        tempDir,
+        tempDir,
+      );
+      assert.equal(location.startLine, 7);
+    });
+
+    it("should leave the line unset for unknown headings", () => {
+      const location = resolveIssueLocation(
+        { level: "ERROR", message: "m", path: "spectr/spec.md#missing" },
+        tempDir,
+        tempDir,
+      );
+      assert.equal(location.startLine, undefined);
+    });
+  });
+
+  describe("findHeadingLine", () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "spectr-test-"));
+      filePath = path.join(tempDir, "spec.md");
+      fs.writeFileSync(
+        filePath,
+        "# Spec\r\n### Requirement: Session Login\r\n#### Scenario: Login\r\n",
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { force: true, recursive: true });
+    });
+
+    it("should prefer exact matches, ignoring case", () => {
+      assert.equal(findHeadingLine(filePath, "scenario: login"), 3);
+    });
+
+    it("should match the name after a heading prefix", () => {
+      assert.equal(findHeadingLine(filePath, "Session Login"), 2);
+    });
+
+    it("should return undefined for missing files", () => {
+      assert.equal(
+        findHeadingLine(path.join(tempDir, "missing.md"), "Spec"),
+        undefined,
+      );
+    });
+  });
+});
@@ -0,0 +1,289 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, describe, it } from "node:test";
+import type { PrCommentData } from "../../../src/reports/pr-comment";
+import {
+  diffIssues,
+  encodeIssues,
+  extractPreviousIssues,
+  findPrComment,
+  formatPrComment,
+  getPullRequestNumber,
+  MAX_LISTED_ISSUES,
+  PR_COMMENT_MARKER,
+  upsertPrComment,
+} from "../../../src/reports/pr-comment";
+import type { ReportedIssue } from "../../../src/reports/types";
+import { createReportedIssue, mockEnv } from "../../helpers/test-utils";
+
+const createData = (issues: ReportedIssue[]): PrCommentData => ({
+  failOn: "error",
+  issues,
+  passed: issues.every((issue) => issue.level !== "ERROR"),
+  projectOutputs: [
+    {
+      output: [
+        {
+          name: "auth",
+          report: {
+            issues,
+            summary: {
+              errors: issues.filter((i) => i.level === "ERROR").length,
+              info: issues.filter((i) => i.level === "INFO").length,
+              warnings: issues.filter((i) => i.level === "WARNING").length,
+            },
+            valid: issues.length === 0,
+          },
+          type: "spec",
+          valid: issues.length === 0,
+        },
+      ],
+      project: ".",
+    },
+  ],
+  spectrVersion: "v0.1.0",
+});
+
+function createMockOctokit(
+  comments: Array<{ id: number; body?: string; user?: { type: string } }>,
+) {
+  const calls: Array<{ method: string; params: Record<string, unknown> }> = [];
+  const octokit = {
+    paginate: async () => comments,
+    rest: {
+      issues: {
+        createComment: async (params: Record<string, unknown>) => {
+          calls.push({ method: "createComment", params });
+          return { data: { id: 99 } };
+        },
+        listComments: () => {},
+        updateComment: async (params: Record<string, unknown>) => {
+          calls.push({ method: "updateComment", params });
+          return { data: {} };
+        },
+      },
+    },
+  };
+  return {
+    calls,
+    octokit: octokit as unknown as Parameters<typeof upsertPrComment>[0],
+  };
+}
+
+const repo = { owner: "owner", repo: "repo" };
+
+describe("pr-comment.ts", () => {
+  describe("formatPrComment", () => {
+    it("should include the marker, outcome and counts", () => {
+      const body = formatPrComment(
+        createData([
+          createReportedIssue({ message: "Missing scenario" }),
+          createReportedIssue({ level: "INFO", message: "Hint" }),
+        ]),
+      );
+      assert.ok(body.startsWith(PR_COMMENT_MARKER));
+      assert.match(body, /## ❌ Spectr validation failed/);
+      assert.match(
+        body,
+        /validated 1 items \(fail-on: `error`\): 1 errors, 0 warnings, 1 info/,
+      );
+      assert.match(body, /### Issues \(2\)/);
+      assert.match(
+        body,
+        /- \*\*ERROR\*\* `spectr\/specs\/auth\/spec.md`: Missing scenario/,
+      );
+    });
+
+    it("should list new and resolved issues against the previous run", () => {
+      const body = formatPrComment(
+        createData([
+          createReportedIssue({ message: "Still broken" }),
+          createReportedIssue({ message: "New problem" }),
+        ]),
+        [
+          {
+            file: "spectr/specs/auth/spec.md",
+            level: "ERROR",
+            message: "Still broken",
+          },
+          {
+            file: "spectr/specs/auth/spec.md",
+            level: "ERROR",
+            message: "Fixed problem",
+          },
+        ],
+      );
+      assert.match(
+        body,
+        /### New issues \(1\)\n\n- \*\*ERROR\*\* .*: New problem/,
+      );
+      assert.match(
+        body,
+        /### Resolved issues \(1\)\n\n- ~~\*\*ERROR\*\* .*: Fixed problem~~/,
+      );
+      assert.doesNotMatch(body, /Still broken/);
+    });
+
+    it("should note when nothing changed", () => {
+      const body = formatPrComment(createData([]), []);
+      assert.match(body, /## ✅ Spectr validation passed/);
+      assert.match(body, /No changes since the previous run\./);
+    });
+
+    it("should truncate long issue lists", () => {
+      const issues = Array.from({ length: MAX_LISTED_ISSUES + 5 }, (_, i) =>
+        createReportedIssue({ message: `Problem ${i}` }),
+      );
+      const body = formatPrComment(createData(issues));
+      assert.match(body, /…and 5 more/);
+    });
+
+    it("should escape HTML in messages", () => {
+      const body = formatPrComment(
+        createData([createReportedIssue({ message: "Use <b> tags" })]),
+      );
+      assert.match(body, /Use &lt;b&gt; tags/);
+    });
+  });
+
+  describe("issue state", () => {
+    it("should round-trip issues through the hidden marker", () => {
+      const issues = [
+        createReportedIssue({
+          level: "WARNING",
+          line: 4,
+          message: "Quoted 'name' --> here",
+        }),
+      ];
+      const body = formatPrComment(createData(issues));
+      assert.deepEqual(extractPreviousIssues(body), [
+        {
+          file: "spectr/specs/auth/spec.md",
+          level: "WARNING",
+          message: "Quoted 'name' --> here",
+        },
+      ]);
+    });
+
+    it("should return undefined without a valid marker", () => {
+      assert.equal(extractPreviousIssues("no marker"), undefined);
+      assert.equal(
+        extractPreviousIssues("<!-- spectr-issues:bm90IGpzb24= -->"),
+        undefined,
+      );
+    });
+
+    it("should encode only the issue identity", () => {
+      const marker = encodeIssues([
+        createReportedIssue({ line: 12, message: "Message" }),
+      ]);
+      assert.deepEqual(extractPreviousIssues(marker), [
+        {
+          file: "spectr/specs/auth/spec.md",
+          level: "ERROR",
+          message: "Message",
+        },
+      ]);
+    });
+  });
+
+  describe("diffIssues", () => {
+    it("should ignore line changes", () => {
+      const diff = diffIssues(
+        [createReportedIssue({ line: 1, message: "Same" })],
+        [createReportedIssue({ line: 20, message: "Same" })],
+      );
+      assert.deepEqual(diff, { added: [], resolved: [] });
+    });
+
+    it("should treat a level change as a new issue", () => {
+      const diff = diffIssues(
+        [createReportedIssue({ level: "WARNING", message: "Same" })],
+        [createReportedIssue({ message: "Same" })],
+      );
+      assert.equal(diff.added.length, 1);
+      assert.equal(diff.resolved.length, 1);
+    });
+  });
+
+  describe("upsertPrComment", () => {
+    it("should create a comment when none exists", async () => {
+      const { calls, octokit } = createMockOctokit([
+        { body: "unrelated", id: 1 },
+      ]);
+
+      const result = await upsertPrComment(octokit, repo, 7, createData([]));
+
+      assert.deepEqual(result, { created: true, id: 99 });
+      assert.equal(calls.length, 1);
+      assert.equal(calls[0].method, "createComment");
+      assert.equal(calls[0].params.issue_number, 7);
+    });
+
+    it("should update the marked comment and diff against it", async () => {
+      const previous = formatPrComment(
+        createData([createReportedIssue({ message: "Old problem" })]),
+      );
+      const { calls, octokit } = createMockOctokit([
+        { body: "unrelated", id: 1 },
+        { body: previous, id: 2, user: { type: "Bot" } },
+      ]);
+
+      const result = await upsertPrComment(octokit, repo, 7, createData([]));
+
+      assert.deepEqual(result, { created: false, id: 2 });
+      assert.equal(calls.length, 1);
+      assert.equal(calls[0].method, "updateComment");
+      assert.equal(calls[0].params.comment_id, 2);
+      assert.match(
+        calls[0].params.body as string,
+        /### Resolved issues \(1\)\n\n- ~~.*Old problem~~/,
+      );
+    });
+  });
+
+  describe("findPrComment", () => {
+    it("should ignore marked comments by users", async () => {
+      const { octokit } = createMockOctokit([
+        { body: `Quoting ${PR_COMMENT_MARKER}`, id: 1, user: { type: "User" } },
+        { body: PR_COMMENT_MARKER, id: 2, user: { type: "Bot" } },
+      ]);
+
+      assert.deepEqual(await findPrComment(octokit, repo, 7), {
+        body: PR_COMMENT_MARKER,
+        id: 2,
+      });
+    });
+  });
+
+  describe("getPullRequestNumber", () => {
+    let restoreEnv: () => void = () => {};
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should read the number from the event payload", () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "spectr-test-"));
+      const eventPath = path.join(tempDir, "event.json");
+      fs.writeFileSync(
+        eventPath,
+        JSON.stringify({ pull_request: { number: 12 } }),
+      );
+      restoreEnv = mockEnv({ GITHUB_EVENT_PATH: eventPath });
+
+      try {
+        assert.equal(getPullRequestNumber(), 12);
+      } finally {
+        fs.rmSync(tempDir, { force: true, recursive: true });
+      }
+    });
+
+    it("should return undefined outside of pull request events", () => {
+      restoreEnv = mockEnv({ GITHUB_EVENT_PATH: "" });
+      assert.equal(getPullRequestNumber(), undefined);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import {
+  getValidationTotals,
+  writeResultsFile,
+} from "../../../src/reports/results";
+import type { ValidationOutput } from "../../../src/types/spectr";
+import { mockEnv } from "../../helpers/test-utils";
+
+const docsOutput: ValidationOutput = [
+  {
+    name: "auth",
+    report: {
+      issues: [],
+      summary: { errors: 2, info: 1, warnings: 3 },
+      valid: false,
+    },
+    type: "spec",
+    valid: false,
+  },
+  { name: "add-sso", type: "change", valid: true },
+];
+
+const apiOutput: ValidationOutput = [
+  {
+    error: "could not parse",
+    name: "broken",
+    type: "change",
+    valid: false,
+  },
+];
+
+describe("results.ts", () => {
+  describe("getValidationTotals", () => {
+    it("should sum totals across projects", () => {
+      assert.deepEqual(
+        getValidationTotals([
+          { output: docsOutput, project: "docs" },
+          { output: apiOutput, project: "api" },
+        ]),
+        { errors: 2, info: 1, itemsFailed: 2, itemsValidated: 3, warnings: 3 },
+      );
+    });
+
+    it("should return zeros without projects", () => {
+      assert.deepEqual(getValidationTotals([]), {
+        errors: 0,
+        info: 0,
+        itemsFailed: 0,
+        itemsValidated: 0,
+        warnings: 0,
+      });
+    });
+  });
+
+  describe("writeResultsFile", () => {
+    let tempDir: string;
+    let restoreEnv: () => void = () => {};
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "spectr-test-"));
+      restoreEnv = mockEnv({ RUNNER_TEMP: tempDir });
+    });
+
+    afterEach(() => {
+      restoreEnv();
+      fs.rmSync(tempDir, { force: true, recursive: true });
+    });
+
+    it("should write the concatenated output to RUNNER_TEMP", async () => {
+      const filePath = await writeResultsFile([docsOutput, apiOutput]);
+
+      assert.equal(path.dirname(filePath), tempDir);
+      assert.deepEqual(JSON.parse(fs.readFileSync(filePath, "utf-8")), [
+        ...docsOutput,
+        ...apiOutput,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import {
+  buildSarifLog,
+  deriveRuleId,
+  toSarifLevel,
+  writeSarifFile,
+} from "../../../src/reports/sarif";
+import { createReportedIssue } from "../../helpers/test-utils";
+
+describe("sarif.ts", () => {
+  describe("toSarifLevel", () => {
+    it("should map spectr levels to SARIF levels", () => {
+      assert.equal(toSarifLevel("ERROR"), "error");
+      assert.equal(toSarifLevel("WARNING"), "warning");
+      assert.equal(toSarifLevel("INFO"), "note");
+    });
+  });
+
+  describe("deriveRuleId", () => {
+    it("should drop quoted names and numbers", () => {
+      assert.equal(
+        deriveRuleId("Requirement 'User Login' has no scenarios"),
+        "requirement-has-no-scenarios",
+      );
+      assert.equal(
+        deriveRuleId('Requirement "Logout" has no scenarios'),
+        "requirement-has-no-scenarios",
+      );
+    });
+
+    it("should keep apostrophes inside words", () => {
+      assert.equal(
+        deriveRuleId("Spec doesn't define 'Purpose'"),
+        "spec-doesn-t-define",
+      );
+    });
+
+    it("should fall back to a default rule for empty templates", () => {
+      assert.equal(deriveRuleId("'only a name' 42"), "spectr-validation");
+    });
+
+    it("should cap rule IDs at 64 characters", () => {
+      const ruleId = deriveRuleId("word ".repeat(40));
+      assert.ok(ruleId.length <= 64);
+      assert.ok(!ruleId.endsWith("-"));
+    });
+  });
+
+  describe("buildSarifLog", () => {
+    it("should produce a SARIF 2.1.0 log with one run", () => {
+      const log = buildSarifLog([], "v0.2.0");
+      assert.equal(log.version, "2.1.0");
+      assert.equal(log.runs.length, 1);
+      assert.equal(log.runs[0].tool.driver.name, "spectr");
+      assert.equal(log.runs[0].tool.driver.version, "0.2.0");
+      assert.deepEqual(log.runs[0].results, []);
+    });
+
+    it("should share rules between issues with the same message template", () => {
+      const log = buildSarifLog([
+        createReportedIssue({
+          file: "a.md",
+          line: 3,
+          message: "Requirement 'A' has no scenarios",
+          path: "a.md",
+        }),
+        createReportedIssue({
+          file: "b.md",
+          level: "WARNING",
+          message: "Missing purpose section",
+          path: "b.md",
+        }),
+        createReportedIssue({
+          file: "c.md",
+          line: 9,
+          message: "Requirement 'B' has no scenarios",
+          path: "c.md",
+        }),
+      ]);
+      const [run] = log.runs;
+
+      assert.equal(run.tool.driver.rules.length, 2);
+      assert.equal(run.results[0].ruleId, run.results[2].ruleId);
+      assert.equal(run.results[2].ruleIndex, 0);
+      assert.equal(run.results[1].ruleIndex, 1);
+      assert.equal(
+        run.tool.driver.rules[1].defaultConfiguration.level,
+        "warning",
+      );
+    });
+
+    it("should map locations to workspace-relative URIs", () => {
+      const log = buildSarifLog([
+        createReportedIssue({
+          file: "docs/spectr/specs/auth/spec.md",
+          level: "INFO",
+          line: 12,
+          message: "Note",
+          path: "docs/spectr/specs/auth/spec.md",
+        }),
+        createReportedIssue({
+          file: "docs/spectr/project.md",
+          level: "INFO",
+          message: "Note",
+          path: "docs/spectr/project.md",
+        }),
+      ]);
+      const [first, second] = log.runs[0].results;
+
+      assert.equal(first.level, "note");
+      assert.deepEqual(first.locations[0].physicalLocation, {
+        artifactLocation: {
+          uri: "docs/spectr/specs/auth/spec.md",
+          uriBaseId: "%SRCROOT%",
+        },
+        region: { startLine: 12 },
+      });
+      assert.equal(second.locations[0].physicalLocation.region.startLine, 1);
+      assert.deepEqual(first.properties, {
+        item: "auth",
+        itemType: "spec",
+        project: ".",
+      });
+    });
+  });
+
+  describe("writeSarifFile", () => {
+    it("should write the log as JSON, creating directories", async () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "spectr-test-"));
+      try {
+        const target = path.join(tempDir, "reports", "spectr.sarif");
+        const written = await writeSarifFile(target, buildSarifLog([]));
+
+        assert.equal(written, target);
+        const parsed = JSON.parse(fs.readFileSync(target, "utf-8"));
+        assert.equal(parsed.version, "2.1.0");
+      } finally {
+        fs.rmSync(tempDir, { force: true, recursive: true });
+      }
+    });
+  });
+});
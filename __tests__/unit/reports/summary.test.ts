@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import * as core from "@actions/core";
+import {
+  addJobSummary,
+  getBlobUrl,
+  type JobSummaryData,
+  MAX_LISTED_ISSUES,
+} from "../../../src/reports/summary";
+import type { ReportedIssue } from "../../../src/reports/types";
+import { mockEnv } from "../../helpers/test-utils";
+
+const issue: ReportedIssue = {
+  file: "spectr/specs/auth/spec.md",
+  itemName: "auth",
+  itemType: "spec",
+  level: "ERROR",
+  line: 12,
+  message: "Requirement <Login> has no scenarios",
+  path: "spectr/specs/auth/spec.md",
+  project: ".",
+};
+
+const createData = (overrides: Partial<JobSummaryData> = {}) => ({
+  failOn: "error" as const,
+  issues: [issue],
+  passed: false,
+  projectOutputs: [
+    {
+      output: [
+        {
+          name: "auth",
+          report: {
+            issues: [],
+            summary: { errors: 1, info: 2, warnings: 0 },
+            valid: false,
+          },
+          type: "spec" as const,
+          valid: false,
+        },
+      ],
+      project: ".",
+    },
+  ],
+  spectrVersion: "v0.2.0",
+  ...overrides,
+});
+
+describe("summary.ts", () => {
+  let restoreEnv: () => void;
+
+  beforeEach(() => {
+    restoreEnv = mockEnv({
+      GITHUB_REPOSITORY: "owner/repo",
+      GITHUB_SERVER_URL: "https://github.com",
+      GITHUB_SHA: "abc123",
+    });
+    core.summary.emptyBuffer();
+  });
+
+  afterEach(() => {
+    core.summary.emptyBuffer();
+    restoreEnv();
+  });
+
+  describe("getBlobUrl", () => {
+    it("should link to the file at the current commit", () => {
+      assert.equal(
+        getBlobUrl("docs/my spec.md", 3),
+        "https://github.com/owner/repo/blob/abc123/docs/my%20spec.md#L3",
+      );
+    });
+
+    it("should return undefined outside of GitHub Actions", () => {
+      delete process.env.GITHUB_SHA;
+      assert.equal(getBlobUrl("spec.md"), undefined);
+    });
+  });
+
+  describe("addJobSummary", () => {
+    it("should render the outcome, version and item table", () => {
+      addJobSummary(createData());
+      const html = core.summary.stringify();
+
+      assert.match(html, /<h2>❌ Spectr validation failed<\/h2>/);
+      assert.match(html, /<code>v0\.2\.0<\/code> validated 1 items/);
+      assert.match(
+        html,
+        /<td>❌ auth<\/td><td>spec<\/td><td>1<\/td><td>0<\/td><td>2<\/td>/,
+      );
+      assert.doesNotMatch(html, /<th>Project<\/th>/);
+    });
+
+    it("should list issues per file with escaped messages and links", () => {
+      addJobSummary(createData());
+      const html = core.summary.stringify();
+
+      assert.match(
+        html,
+        /<details><summary>spectr\/specs\/auth\/spec\.md \(1 issue\)<\/summary>/,
+      );
+      assert.match(
+        html,
+        /<a href="https:\/\/github\.com\/owner\/repo\/blob\/abc123\/spectr\/specs\/auth\/spec\.md#L12">line 12<\/a>/,
+      );
+      assert.match(html, /Requirement &lt;Login&gt; has no scenarios/);
+    });
+
+    it("should truncate long issue lists", () => {
+      const issues = Array.from({ length: MAX_LISTED_ISSUES + 5 }, (_, i) => ({
+        ...issue,
+        file: i < 10 ? "a.md" : "b.md",
+        line: i + 1,
+      }));
+      addJobSummary(createData({ issues }));
+      const html = core.summary.stringify();
+
+      assert.equal(html.match(/<li>/g)?.length, MAX_LISTED_ISSUES);
+      assert.match(html, /b\.md \(195 issues\)/);
+      assert.match(html, /…and 5 more/);
+    });
+
+    it("should include a project column for multiple projects", () => {
+      const data = createData();
+      addJobSummary({
+        ...data,
+        projectOutputs: [
+          data.projectOutputs[0],
+          { output: [], project: "services/api" },
+        ],
+      });
+      assert.match(core.summary.stringify(), /<th>Project<\/th>/);
+    });
+
+    it("should include issue sync counts when available", () => {
+      addJobSummary(
+        createData({
+          issues: [],
+          passed: true,
+          syncResult: {
+            closed: 1,
+            created: 2,
+            errors: [],
+            totalChanges: 3,
+            updated: 0,
+          },
+        }),
+      );
+      const html = core.summary.stringify();
+
+      assert.match(html, /✅ Spectr validation passed/);
+      assert.match(html, /<li>Created: 2<\/li>/);
+      assert.match(html, /<li>Closed: 1<\/li>/);
+      assert.doesNotMatch(html, /Issues by file/);
+    });
+  });
+});
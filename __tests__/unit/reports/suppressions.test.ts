@@ -0,0 +1,202 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import {
+  applySuppressions,
+  findSuppressibleFiles,
+  matchesSuppression,
+  parseSuppressions,
+  type Suppression,
+} from "../../../src/reports/suppressions";
+import type { ValidationOutput } from "../../../src/types/spectr";
+
+const createSuppression = (line: number, pattern: string): Suppression => ({
+  file: "spectr/specs/auth/spec.md",
+  line,
+  pattern,
+  used: false,
+});
+
+describe("suppressions.ts", () => {
+  describe("parseSuppressions", () => {
+    it("should parse comments with and without a pattern", () => {
+      const suppressions = parseSuppressions(
+        [
+          "# Auth",
+          "<!-- spectr-ignore: has no scenarios -->",
+          "### Requirement: Login",
+          "text <!--spectr-ignore-->",
+        ].join("\n"),
+        "spec.md",
+      );
+      assert.deepEqual(
+        suppressions.map(({ line, pattern }) => ({ line, pattern })),
+        [
+          { line: 2, pattern: "has no scenarios" },
+          { line: 4, pattern: "" },
+        ],
+      );
+    });
+
+    it("should parse several comments on one line", () => {
+      const suppressions = parseSuppressions(
+        "<!-- spectr-ignore: a --> <!-- spectr-ignore: b -->",
+        "spec.md",
+      );
+      assert.deepEqual(
+        suppressions.map((s) => s.pattern),
+        ["a", "b"],
+      );
+    });
+
+    it("should ignore other comments", () => {
+      assert.deepEqual(
+        parseSuppressions("<!-- spectr-change-id:abc -->", "spec.md"),
+        [],
+      );
+    });
+  });
+
+  describe("matchesSuppression", () => {
+    const issue = {
+      file: "spectr/specs/auth/spec.md",
+      line: 5,
+      message: "Requirement 'Login' has no scenarios",
+    };
+
+    it("should match on the same line or the line above", () => {
+      assert.equal(
+        matchesSuppression(createSuppression(5, "no scenarios"), issue),
+        true,
+      );
+      assert.equal(
+        matchesSuppression(createSuppression(4, "no scenarios"), issue),
+        true,
+      );
+      assert.equal(
+        matchesSuppression(createSuppression(3, "no scenarios"), issue),
+        false,
+      );
+      assert.equal(
+        matchesSuppression(createSuppression(6, "no scenarios"), issue),
+        false,
+      );
+    });
+
+    it("should require the pattern in the message", () => {
+      assert.equal(
+        matchesSuppression(createSuppression(5, "purpose"), issue),
+        false,
+      );
+      assert.equal(matchesSuppression(createSuppression(5, ""), issue), true);
+    });
+
+    it("should require the same file", () => {
+      assert.equal(
+        matchesSuppression(
+          { ...createSuppression(5, ""), file: "other.md" },
+          issue,
+        ),
+        false,
+      );
+    });
+
+    it("should match issues without a line anywhere in the file", () => {
+      assert.equal(
+        matchesSuppression(createSuppression(40, "no scenarios"), {
+          ...issue,
+          line: undefined,
+        }),
+        true,
+      );
+    });
+  });
+
+  describe("with a project on disk", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "spectr-test-"));
+      const write = (file: string, content: string) => {
+        const filePath = path.join(tempDir, file);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+      };
+      write(
+        "spectr/specs/auth/spec.md",
+        [
+          "# Auth",
+          "<!-- spectr-ignore: has no scenarios -->",
+          "### Requirement: Login",
+          "<!-- spectr-ignore: stale -->",
+        ].join("\n"),
+      );
+      write("spectr/changes/add-sso/proposal.md", "# SSO\n");
+      write(
+        "spectr/changes/archive/old/proposal.md",
+        "<!-- spectr-ignore -->\n",
+      );
+      write("spectr/specs/auth/notes.md", "<!-- spectr-ignore -->\n");
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { force: true, recursive: true });
+    });
+
+    it("should find spec and proposal files outside the archive", () => {
+      assert.deepEqual(findSuppressibleFiles(tempDir, tempDir).sort(), [
+        "spectr/changes/add-sso/proposal.md",
+        "spectr/specs/auth/spec.md",
+      ]);
+    });
+
+    it("should suppress matching issues and report unused suppressions", () => {
+      const output: ValidationOutput = [
+        {
+          name: "auth",
+          report: {
+            issues: [
+              {
+                level: "ERROR",
+                line: 3,
+                message: "Requirement 'Login' has no scenarios",
+                path: "spectr/specs/auth/spec.md",
+              },
+              {
+                level: "WARNING",
+                line: 1,
+                message: "Purpose is short",
+                path: "spectr/specs/auth/spec.md",
+              },
+            ],
+            summary: { errors: 1, info: 0, warnings: 1 },
+            valid: false,
+          },
+          type: "spec",
+          valid: false,
+        },
+      ];
+
+      const result = applySuppressions(output, ".", tempDir, tempDir);
+
+      assert.equal(result.suppressed.length, 1);
+      assert.equal(result.suppressed[0].level, "ERROR");
+      assert.deepEqual(result.output[0].report?.summary, {
+        errors: 0,
+        info: 0,
+        warnings: 1,
+      });
+      assert.equal(result.output[0].valid, true);
+      assert.deepEqual(
+        result.unused.map(({ file, line, pattern }) => ({
+          file,
+          line,
+          pattern,
+        })),
+        [{ file: "spectr/specs/auth/spec.md", line: 4, pattern: "stale" }],
+      );
+    });
+  });
+});
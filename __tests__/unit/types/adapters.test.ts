@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  getOutputAdapter,
+  normalizeValidationOutput,
+  type OutputAdapter,
+} from "../../../src/types/adapters";
+
+const identity = (output: unknown) => output;
+const adapters: OutputAdapter[] = [
+  { adapt: identity, name: "v2", range: ">=0.3.0" },
+  { adapt: identity, name: "v1", range: "<0.3.0" },
+];
+
+describe("adapters.ts", () => {
+  describe("getOutputAdapter", () => {
+    it("should pick the adapter whose range matches", () => {
+      assert.equal(getOutputAdapter("v0.2.1", adapters).name, "v1");
+      assert.equal(getOutputAdapter("0.3.0", adapters).name, "v2");
+    });
+
+    it("should treat prereleases like their release", () => {
+      assert.equal(getOutputAdapter("v0.3.0-rc.1", adapters).name, "v2");
+    });
+
+    it("should fall back to the newest adapter for non-semver versions", () => {
+      assert.equal(getOutputAdapter("dev", adapters).name, "v2");
+    });
+
+    it("should cover every version with the built-in adapters", () => {
+      assert.equal(getOutputAdapter("v0.1.0").name, "bulk-results");
+    });
+  });
+
+  describe("normalizeValidationOutput", () => {
+    it("should validate the bulk result array", () => {
+      assert.deepEqual(
+        normalizeValidationOutput(
+          [{ name: "auth", type: "spec", valid: true }],
+          "v0.1.0",
+        ),
+        [{ name: "auth", type: "spec", valid: true }],
+      );
+    });
+
+    it("should reject shapes no spectr release prints", () => {
+      assert.throws(
+        () =>
+          normalizeValidationOutput(
+            { results: [{ name: "auth", type: "spec", valid: true }] },
+            "v0.1.0",
+          ),
+        { message: /Invalid spectr output/ },
+      );
+    });
+
+    it("should use the adapter for the version", () => {
+      const legacy: OutputAdapter = {
+        adapt: (output) =>
+          (output as Array<{ id: string }>).map(({ id }) => ({
+            name: id,
+            type: "spec",
+            valid: true,
+          })),
+        name: "legacy",
+        range: "<0.3.0",
+      };
+      assert.deepEqual(
+        normalizeValidationOutput([{ id: "auth" }], "v0.2.0", [
+          adapters[0],
+          legacy,
+        ]),
+        [{ name: "auth", type: "spec", valid: true }],
+      );
+    });
+
+    it("should reject output that does not match after adapting", () => {
+      assert.throws(() => normalizeValidationOutput([{ name: 1 }], "v0.1.0"), {
+        message: /Invalid spectr output at \$\[0\]\.name/,
+      });
+    });
+  });
+});
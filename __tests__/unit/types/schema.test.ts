@@ -0,0 +1,162 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  validateBulkResult,
+  validateValidationOutput,
+  validateValidationReport,
+} from "../../../src/types/schema";
+
+const validReport = {
+  issues: [
+    {
+      level: "ERROR",
+      line: 4,
+      message: "Missing scenario",
+      path: "spectr/specs/auth/spec.md",
+    },
+  ],
+  summary: { errors: 1, info: 0, warnings: 0 },
+  valid: false,
+};
+
+describe("schema.ts", () => {
+  describe("validateValidationOutput", () => {
+    it("should accept well-formed output", () => {
+      const output = [
+        { name: "auth", report: validReport, type: "spec", valid: false },
+        {
+          error: "could not parse",
+          name: "broken",
+          type: "change",
+          valid: false,
+        },
+      ];
+      assert.deepEqual(validateValidationOutput(output), output);
+    });
+
+    it("should accept empty output", () => {
+      assert.deepEqual(validateValidationOutput([]), []);
+    });
+
+    it("should reject non-array output", () => {
+      assert.throws(() => validateValidationOutput({ results: [] }), {
+        message:
+          "Invalid spectr output at $: expected an array of results, got an object",
+      });
+    });
+
+    it("should name the offending result", () => {
+      assert.throws(
+        () =>
+          validateValidationOutput([
+            { name: "auth", type: "spec", valid: true },
+            { name: "sso", type: "proposal", valid: true },
+          ]),
+        {
+          message:
+            'Invalid spectr output at $[1].type: expected one of "change", "spec", got "proposal"',
+        },
+      );
+    });
+
+    it("should drop unknown fields", () => {
+      const [result] = validateValidationOutput([
+        { extra: 1, name: "auth", type: "spec", valid: true },
+      ]);
+      assert.deepEqual(result, { name: "auth", type: "spec", valid: true });
+    });
+  });
+
+  describe("validateBulkResult", () => {
+    it("should report missing fields", () => {
+      assert.throws(() => validateBulkResult({ type: "spec", valid: true }), {
+        message:
+          "Invalid spectr output at $.name: expected a string, got nothing",
+      });
+    });
+
+    it("should treat null report and error as absent", () => {
+      assert.deepEqual(
+        validateBulkResult({
+          error: null,
+          name: "auth",
+          report: null,
+          type: "spec",
+          valid: true,
+        }),
+        { name: "auth", type: "spec", valid: true },
+      );
+    });
+  });
+
+  describe("validateValidationReport", () => {
+    it("should report invalid issue levels with their index", () => {
+      assert.throws(
+        () =>
+          validateValidationReport({
+            ...validReport,
+            issues: [{ ...validReport.issues[0], level: "FATAL" }],
+          }),
+        {
+          message:
+            'Invalid spectr output at $.issues[0].level: expected one of "ERROR", "WARNING", "INFO", got "FATAL"',
+        },
+      );
+    });
+
+    it("should report invalid summary counts", () => {
+      assert.throws(
+        () =>
+          validateValidationReport({
+            ...validReport,
+            summary: { errors: "1", info: 0, warnings: 0 },
+          }),
+        {
+          message:
+            'Invalid spectr output at $.summary.errors: expected a non-negative integer, got "1"',
+        },
+      );
+    });
+
+    it("should report a missing issues array", () => {
+      assert.throws(
+        () =>
+          validateValidationReport({
+            summary: validReport.summary,
+            valid: true,
+          }),
+        {
+          message:
+            "Invalid spectr output at $.issues: expected an array, got nothing",
+        },
+      );
+    });
+
+    it("should keep optional positions and drop zero lines", () => {
+      const report = validateValidationReport({
+        ...validReport,
+        issues: [
+          { ...validReport.issues[0], column: 3, endLine: 6 },
+          { ...validReport.issues[0], line: 0 },
+        ],
+      });
+      assert.equal(report.issues[0].column, 3);
+      assert.equal(report.issues[0].endLine, 6);
+      assert.equal("line" in report.issues[1], false);
+    });
+
+    it("should reject fractional lines", () => {
+      assert.throws(
+        () =>
+          validateValidationReport({
+            ...validReport,
+            issues: [{ ...validReport.issues[0], line: 1.5 }],
+          }),
+        {
+          message:
+            /\$\.issues\[0\]\.line: expected a positive integer, got 1\.5/,
+        },
+      );
+    });
+  });
+});
@@ -17,7 +17,10 @@ import {
   hasAnyErrors,
   hasError,
   hasReport,
+  isFailingLevel,
   isValid,
+  outputFails,
+  summaryFails,
   type ValidationIssue,
   type ValidationOutput,
 } from "../../../src/types/spectr";
@@ -683,6 +686,81 @@ describe("Formatting Functions", () => {
   });
 });
 
+describe("Failure Policy", () => {
+  describe("isFailingLevel", () => {
+    it("should fail only on errors by default policy", () => {
+      assert.equal(isFailingLevel("ERROR", "error"), true);
+      assert.equal(isFailingLevel("WARNING", "error"), false);
+      assert.equal(isFailingLevel("INFO", "error"), false);
+    });
+
+    it("should fail on warnings and errors with warning policy", () => {
+      assert.equal(isFailingLevel("ERROR", "warning"), true);
+      assert.equal(isFailingLevel("WARNING", "warning"), true);
+      assert.equal(isFailingLevel("INFO", "warning"), false);
+    });
+
+    it("should fail on every level with info policy", () => {
+      assert.equal(isFailingLevel("INFO", "info"), true);
+    });
+
+    it("should never fail with never policy", () => {
+      assert.equal(isFailingLevel("ERROR", "never"), false);
+    });
+  });
+
+  describe("summaryFails", () => {
+    const warningsOnly = { errors: 0, info: 2, warnings: 1 };
+
+    it("should pass warnings under the error policy", () => {
+      assert.equal(summaryFails(warningsOnly, "error"), false);
+    });
+
+    it("should fail warnings under the warning policy", () => {
+      assert.equal(summaryFails(warningsOnly, "warning"), true);
+    });
+
+    it("should pass an empty summary under the info policy", () => {
+      assert.equal(
+        summaryFails({ errors: 0, info: 0, warnings: 0 }, "info"),
+        false,
+      );
+    });
+  });
+
+  describe("outputFails", () => {
+    it("should fail on reports under the policy", () => {
+      const output: ValidationOutput = [
+        {
+          name: "auth",
+          report: {
+            issues: [],
+            summary: { errors: 0, info: 0, warnings: 1 },
+            valid: true,
+          },
+          type: "spec",
+          valid: true,
+        },
+      ];
+      assert.equal(outputFails(output, "error"), false);
+      assert.equal(outputFails(output, "warning"), true);
+    });
+
+    it("should treat results that could not be validated as errors", () => {
+      const output: ValidationOutput = [
+        {
+          error: "parse failure",
+          name: "broken",
+          type: "change",
+          valid: false,
+        },
+      ];
+      assert.equal(outputFails(output, "error"), true);
+      assert.equal(outputFails(output, "never"), false);
+    });
+  });
+});
+
 describe("Edge Cases", () => {
   it("should handle empty validation output", () => {
     const output: ValidationOutput = [];
@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildValidateArgs,
+  findItems,
+  parseArgs,
+} from "../../../src/utils/args";
+
+describe("args.ts", () => {
+  describe("parseArgs", () => {
+    it("should return an empty array for empty input", () => {
+      assert.deepEqual(parseArgs(""), []);
+      assert.deepEqual(parseArgs("   \n "), []);
+    });
+
+    it("should split on any whitespace", () => {
+      assert.deepEqual(parseArgs("--strict\t--verbose\n item"), [
+        "--strict",
+        "--verbose",
+        "item",
+      ]);
+    });
+
+    it("should keep single-quoted strings literally", () => {
+      assert.deepEqual(parseArgs(`'a b' 'it\\"s'`), ["a b", 'it\\"s']);
+    });
+
+    it("should handle escapes inside double quotes", () => {
+      assert.deepEqual(parseArgs(`"say \\"hi\\"" "C:\\dir"`), [
+        'say "hi"',
+        "C:\\dir",
+      ]);
+    });
+
+    it("should join adjacent quoted and unquoted parts", () => {
+      assert.deepEqual(parseArgs(`--name="my change"`), ["--name=my change"]);
+    });
+
+    it("should keep empty quoted arguments", () => {
+      assert.deepEqual(parseArgs(`a "" b`), ["a", "", "b"]);
+    });
+
+    it("should handle backslash escapes and line continuations", () => {
+      assert.deepEqual(parseArgs("a\\ b \\\nc"), ["a b", "c"]);
+    });
+
+    it("should throw on unterminated quotes", () => {
+      assert.throws(() => parseArgs(`"unterminated`), {
+        message: /Unterminated " quote/,
+      });
+    });
+  });
+
+  describe("findItems", () => {
+    it("should skip the values of flags", () => {
+      assert.deepEqual(findItems(["--type", "spec"]), []);
+      assert.deepEqual(findItems(["my-change", "--type", "spec"]), [
+        "my-change",
+      ]);
+      assert.deepEqual(findItems(["--type=spec", "my-change"]), ["my-change"]);
+    });
+
+    it("should keep items after boolean flags", () => {
+      assert.deepEqual(findItems(["--strict", "my-change"]), ["my-change"]);
+      assert.deepEqual(findItems(["--verbose", "my-change"]), ["my-change"]);
+    });
+
+    it("should treat everything after -- as items", () => {
+      assert.deepEqual(findItems(["--type", "--", "-odd-name"]), ["-odd-name"]);
+    });
+  });
+
+  describe("buildValidateArgs", () => {
+    it("should default to validating everything as JSON", () => {
+      assert.deepEqual(buildValidateArgs([]), ["validate", "--all", "--json"]);
+    });
+
+    it("should append flags after the defaults", () => {
+      assert.deepEqual(buildValidateArgs(["--strict"]), [
+        "validate",
+        "--all",
+        "--json",
+        "--strict",
+      ]);
+    });
+
+    it("should drop --all when items are targeted", () => {
+      assert.deepEqual(buildValidateArgs(["--strict", "my-change"]), [
+        "validate",
+        "--json",
+        "--strict",
+        "my-change",
+      ]);
+    });
+
+    it("should not count flag values as items", () => {
+      assert.deepEqual(buildValidateArgs(parseArgs("--type spec")), [
+        "validate",
+        "--all",
+        "--json",
+        "--type",
+        "spec",
+      ]);
+    });
+
+    it("should not duplicate --json or --all", () => {
+      assert.deepEqual(buildValidateArgs(["--json", "--all"]), [
+        "validate",
+        "--json",
+        "--all",
+      ]);
+    });
+
+    it("should reject arguments that disable JSON output", () => {
+      for (const arg of ["--no-json", "--json=false", "--json=0"]) {
+        assert.throws(() => buildValidateArgs([arg]), {
+          message: /requires spectr's JSON output/,
+        });
+      }
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import {
+  getChangedFiles,
+  getChangedFilesFromApi,
+  getChangedFilesFromGit,
+} from "../../../src/utils/changed-files";
+import { mockEnv } from "../../helpers/test-utils";
+
+function createMockOctokit(files: string[] | Error) {
+  const octokit = {
+    paginate: async () => {
+      if (files instanceof Error) {
+        throw files;
+      }
+      return files.map((filename) => ({ filename }));
+    },
+    rest: { pulls: { listFiles: () => {} } },
+  };
+  return octokit as unknown as Parameters<typeof getChangedFilesFromApi>[0];
+}
+
+const repo = { owner: "owner", repo: "repo" };
+
+describe("changed-files.ts", () => {
+  let tempDir: string;
+  let restoreEnv: () => void = () => {};
+
+  const git = (...args: string[]) =>
+    execFileSync("git", args, { cwd: tempDir, encoding: "utf-8" }).trim();
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "spectr-test-"));
+    git("init", "-q");
+    git("config", "user.email", "test@example.com");
+    git("config", "user.name", "Test");
+    fs.mkdirSync(path.join(tempDir, "spectr"));
+    fs.writeFileSync(path.join(tempDir, "spectr", "project.md"), "# Project\n");
+    git("add", ".");
+    git("commit", "-qm", "base");
+    git("update-ref", "refs/remotes/origin/main", "HEAD");
+    fs.writeFileSync(path.join(tempDir, "spectr", "new.md"), "# New\n");
+    git("add", ".");
+    git("commit", "-qm", "change");
+  });
+
+  afterEach(() => {
+    restoreEnv();
+    fs.rmSync(tempDir, { force: true, recursive: true });
+  });
+
+  describe("getChangedFilesFromGit", () => {
+    it("should list files changed since the base branch", async () => {
+      const files = await getChangedFilesFromGit("main", tempDir);
+      assert.deepEqual([...files], ["spectr/new.md"]);
+    });
+
+    it("should throw when the base branch is missing", async () => {
+      await assert.rejects(getChangedFilesFromGit("missing", tempDir), {
+        message: /git diff against origin\/missing failed/,
+      });
+    });
+  });
+
+  describe("getChangedFilesFromApi", () => {
+    it("should return the pull request file names", async () => {
+      const files = await getChangedFilesFromApi(
+        createMockOctokit(["a.md", "spectr/b.md"]),
+        repo,
+        1,
+      );
+      assert.deepEqual([...files], ["a.md", "spectr/b.md"]);
+    });
+  });
+
+  describe("getChangedFiles", () => {
+    it("should prefer the pulls API", async () => {
+      restoreEnv = mockEnv({ GITHUB_BASE_REF: "main" });
+      const files = await getChangedFiles(
+        createMockOctokit(["from-api.md"]),
+        repo,
+        1,
+        tempDir,
+      );
+      assert.deepEqual([...(files ?? [])], ["from-api.md"]);
+    });
+
+    it("should fall back to git diff when the API fails", async () => {
+      restoreEnv = mockEnv({ GITHUB_BASE_REF: "main" });
+      const files = await getChangedFiles(
+        createMockOctokit(new Error("Resource not accessible")),
+        repo,
+        1,
+        tempDir,
+      );
+      assert.deepEqual([...(files ?? [])], ["spectr/new.md"]);
+    });
+
+    it("should return undefined outside of pull requests", async () => {
+      restoreEnv = mockEnv({ GITHUB_BASE_REF: "" });
+      const files = await getChangedFiles(
+        undefined,
+        undefined,
+        undefined,
+        tempDir,
+      );
+      assert.equal(files, undefined);
+    });
+  });
+});
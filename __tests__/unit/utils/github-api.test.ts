@@ -0,0 +1,248 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import {
+  createGitHubClient,
+  GitHubApiError,
+  getRetryDelay,
+  getWorkflowApiUrl,
+  isGitHubApiError,
+  isQuotaLow,
+  toGitHubApiError,
+} from "../../../src/utils/github-api";
+import {
+  mockEnv,
+  startTestServer,
+  type TestServer,
+} from "../../helpers/test-utils";
+
+const RETRY = { maxDelayMs: 60_000, minDelayMs: 1_000, retries: 3 };
+
+describe("github-api.ts", () => {
+  describe("toGitHubApiError", () => {
+    it("should classify errors by status", () => {
+      const kinds = [
+        [401, "unauthorized"],
+        [403, "forbidden"],
+        [404, "not-found"],
+        [422, "request"],
+        [502, "server"],
+        [undefined, "network"],
+      ] as const;
+      for (const [status, kind] of kinds) {
+        const error = toGitHubApiError({ message: "x", status }, "GET /x");
+        assert.equal(error.kind, kind);
+        assert.equal(error.status, status);
+      }
+    });
+
+    it("should detect primary and secondary rate limits", () => {
+      const primary = toGitHubApiError(
+        {
+          message: "API rate limit exceeded",
+          response: {
+            headers: {
+              "x-ratelimit-remaining": "0",
+              "x-ratelimit-reset": "1700000000",
+            },
+          },
+          status: 403,
+        },
+        "GET /repos/o/r/releases",
+      );
+      assert.equal(primary.kind, "rate-limited");
+      assert.deepEqual(primary.rateLimitReset, new Date(1_700_000_000_000));
+      assert.match(primary.message, /Rate limit resets at 2023-11-14T22:13:20/);
+
+      const secondary = toGitHubApiError(
+        { message: "You have exceeded a secondary rate limit", status: 403 },
+        "POST /repos/o/r/issues",
+      );
+      assert.equal(secondary.kind, "rate-limited");
+      assert.equal(
+        toGitHubApiError({ message: "Too Many Requests", status: 429 }, "GET /")
+          .kind,
+        "rate-limited",
+      );
+    });
+
+    it("should describe the request in the message", () => {
+      const error = toGitHubApiError(
+        { message: "Not Found", status: 404 },
+        "GET /repos/o/r/releases/latest",
+      );
+      assert.equal(
+        error.message,
+        "GitHub API request GET /repos/o/r/releases/latest failed (404): Not Found",
+      );
+    });
+  });
+
+  describe("getRetryDelay", () => {
+    it("should back off on server and network errors", () => {
+      const error = new GitHubApiError("x", "server", 503);
+      for (let attempt = 0; attempt < 3; attempt++) {
+        const delay = getRetryDelay({ message: "x" }, error, attempt, RETRY);
+        assert.ok(delay !== undefined && delay <= 1_000 * 2 ** attempt);
+      }
+      assert.equal(getRetryDelay({ message: "x" }, error, 3, RETRY), undefined);
+    });
+
+    it("should not retry client errors", () => {
+      for (const kind of ["unauthorized", "not-found", "request"] as const) {
+        const error = new GitHubApiError("x", kind, 400);
+        assert.equal(
+          getRetryDelay({ message: "x" }, error, 0, RETRY),
+          undefined,
+        );
+      }
+    });
+
+    it("should honor retry-after", () => {
+      const raw = {
+        message: "secondary rate limit",
+        response: { headers: { "retry-after": "7" } },
+        status: 403,
+      };
+      const error = toGitHubApiError(raw, "GET /");
+      assert.equal(getRetryDelay(raw, error, 0, RETRY), 7_000);
+    });
+
+    it("should wait for the rate limit reset", () => {
+      const raw = {
+        message: "API rate limit exceeded",
+        response: {
+          headers: {
+            "x-ratelimit-remaining": "0",
+            "x-ratelimit-reset": "1000",
+          },
+        },
+        status: 403,
+      };
+      const error = toGitHubApiError(raw, "GET /");
+      assert.equal(getRetryDelay(raw, error, 0, RETRY, 990_000), 11_000);
+      // Resets further away than maxDelayMs fail right away
+      assert.equal(getRetryDelay(raw, error, 0, RETRY, 0), undefined);
+    });
+  });
+
+  describe("isQuotaLow", () => {
+    it("should flag quotas below a tenth of the limit", () => {
+      assert.equal(
+        isQuotaLow({
+          "x-ratelimit-limit": "5000",
+          "x-ratelimit-remaining": "499",
+        }),
+        true,
+      );
+      assert.equal(
+        isQuotaLow({
+          "x-ratelimit-limit": "60",
+          "x-ratelimit-remaining": "57",
+        }),
+        false,
+      );
+    });
+
+    it("should ignore responses without quota headers", () => {
+      assert.equal(isQuotaLow({}), false);
+    });
+  });
+
+  describe("getWorkflowApiUrl", () => {
+    let restoreEnv: () => void = () => {};
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should use the API of the workflow's GitHub instance", () => {
+      restoreEnv = mockEnv({
+        GITHUB_API_URL: "https://ghes.example.com/api/v3",
+      });
+      assert.equal(getWorkflowApiUrl(), "https://ghes.example.com/api/v3");
+    });
+
+    it("should default to api.github.com", () => {
+      restoreEnv = mockEnv({ GITHUB_API_URL: "" });
+      assert.equal(getWorkflowApiUrl(), "https://api.github.com");
+    });
+  });
+
+  describe("createGitHubClient", () => {
+    let server: TestServer | undefined;
+    const sleeps: number[] = [];
+    const retry = {
+      minDelayMs: 10,
+      sleep: async (ms: number) => {
+        sleeps.push(ms);
+      },
+    };
+
+    afterEach(async () => {
+      await server?.close();
+      sleeps.length = 0;
+    });
+
+    it("should retry transient failures", async () => {
+      server = await startTestServer({
+        "/repos/o/r/releases/latest": [
+          { body: { message: "Bad Gateway" }, status: 502 },
+          {
+            body: { message: "slow down" },
+            headers: { "retry-after": "2" },
+            status: 429,
+          },
+          {
+            body: { tag_name: "v0.2.0" },
+            headers: {
+              "x-ratelimit-limit": "60",
+              "x-ratelimit-remaining": "57",
+            },
+          },
+        ],
+      });
+      const client = createGitHubClient("token", server.url, retry);
+      const { data } = await client.rest.repos.getLatestRelease({
+        owner: "o",
+        repo: "r",
+      });
+      assert.equal(data.tag_name, "v0.2.0");
+      assert.equal(server.requests.length, 3);
+      assert.equal(sleeps.length, 2);
+      assert.equal(sleeps[1], 2_000);
+    });
+
+    it("should throw typed errors without retrying client errors", async () => {
+      server = await startTestServer({
+        "/repos/o/r/releases/latest": {
+          body: { message: "Bad credentials" },
+          status: 401,
+        },
+      });
+      const client = createGitHubClient("bad-token", server.url, retry);
+      await assert.rejects(
+        client.rest.repos.getLatestRelease({ owner: "o", repo: "r" }),
+        (error) => isGitHubApiError(error, "unauthorized"),
+      );
+      assert.equal(server.requests.length, 1);
+    });
+
+    it("should give up after the configured retries", async () => {
+      server = await startTestServer({
+        "/repos/o/r/releases": {
+          body: { message: "Service Unavailable" },
+          status: 503,
+        },
+      });
+      const client = createGitHubClient("", server.url, {
+        ...retry,
+        retries: 2,
+      });
+      await assert.rejects(
+        client.rest.repos.listReleases({ owner: "o", repo: "r" }),
+        (error) => isGitHubApiError(error, "server") && error.status === 503,
+      );
+      assert.equal(server.requests.length, 3);
+    });
+  });
+});
@@ -0,0 +1,449 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import {
+  getBaselineConfig,
+  getBuildConfig,
+  getCacheConfig,
+  getCheckRunConfig,
+  getCompatibilityConfig,
+  getFailOn,
+  getInstallConfig,
+  getIssueSyncConfig,
+  getJobSummaryConfig,
+  getOnlyChangedConfig,
+  getPrCommentConfig,
+  getReleaseSelectionConfig,
+  getReleaseSource,
+  getResolutionStrategy,
+} from "../../../src/utils/inputs";
+import { mockEnv } from "../../helpers/test-utils";
+
+describe("inputs.ts", () => {
+  describe("getFailOn", () => {
+    let restoreEnv: () => void = () => {};
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should default to error", () => {
+      restoreEnv = mockEnv({ "INPUT_FAIL-ON": "", INPUT_STRICT: "" });
+      assert.equal(getFailOn(), "error");
+    });
+
+    it("should fail on warnings in strict mode", () => {
+      restoreEnv = mockEnv({ "INPUT_FAIL-ON": "", INPUT_STRICT: "true" });
+      assert.equal(getFailOn(), "warning");
+    });
+
+    it("should prefer an explicit fail-on over strict", () => {
+      restoreEnv = mockEnv({ "INPUT_FAIL-ON": "Never", INPUT_STRICT: "true" });
+      assert.equal(getFailOn(), "never");
+    });
+
+    it("should reject unknown levels", () => {
+      restoreEnv = mockEnv({ "INPUT_FAIL-ON": "fatal", INPUT_STRICT: "" });
+      assert.throws(() => getFailOn(), { message: /Invalid fail-on value/ });
+    });
+  });
+
+  describe("getCheckRunConfig", () => {
+    let restoreEnv: () => void = () => {};
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should be disabled by default", () => {
+      restoreEnv = mockEnv({ "INPUT_CHECK-NAME": "", "INPUT_CHECK-RUN": "" });
+      assert.deepEqual(getCheckRunConfig(), {
+        enabled: false,
+        name: "Spectr validation",
+      });
+    });
+
+    it("should parse both inputs case-insensitively", () => {
+      restoreEnv = mockEnv({
+        "INPUT_CHECK-NAME": "Specs",
+        "INPUT_CHECK-RUN": "True",
+      });
+      assert.deepEqual(getCheckRunConfig(), { enabled: true, name: "Specs" });
+    });
+  });
+
+  describe("getPrCommentConfig", () => {
+    let restoreEnv: () => void = () => {};
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should parse the input case-insensitively", () => {
+      restoreEnv = mockEnv({ "INPUT_PR-COMMENT": "TRUE" });
+      assert.deepEqual(getPrCommentConfig(), { enabled: true });
+      restoreEnv();
+      restoreEnv = mockEnv({ "INPUT_PR-COMMENT": "" });
+      assert.deepEqual(getPrCommentConfig(), { enabled: false });
+    });
+  });
+
+  describe("getJobSummaryConfig", () => {
+    let restoreEnv: () => void = () => {};
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should parse the input case-insensitively", () => {
+      restoreEnv = mockEnv({ "INPUT_JOB-SUMMARY": "FALSE" });
+      assert.deepEqual(getJobSummaryConfig(), { enabled: false });
+      restoreEnv();
+      restoreEnv = mockEnv({ "INPUT_JOB-SUMMARY": "" });
+      assert.deepEqual(getJobSummaryConfig(), { enabled: true });
+    });
+  });
+
+  describe("getOnlyChangedConfig", () => {
+    let restoreEnv: () => void = () => {};
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should be disabled by default", () => {
+      restoreEnv = mockEnv({
+        "INPUT_FAIL-ON-UNRELATED": "",
+        "INPUT_ONLY-CHANGED": "",
+      });
+      assert.deepEqual(getOnlyChangedConfig(), {
+        enabled: false,
+        failOnUnrelated: false,
+      });
+    });
+
+    it("should parse both inputs", () => {
+      restoreEnv = mockEnv({
+        "INPUT_FAIL-ON-UNRELATED": "TRUE",
+        "INPUT_ONLY-CHANGED": "true",
+      });
+      assert.deepEqual(getOnlyChangedConfig(), {
+        enabled: true,
+        failOnUnrelated: true,
+      });
+    });
+  });
+
+  describe("getBaselineConfig", () => {
+    let restoreEnv: () => void = () => {};
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should default to notices", () => {
+      restoreEnv = mockEnv({
+        INPUT_BASELINE: "spectr-baseline.json",
+        "INPUT_BASELINE-MATCHES": "",
+        "INPUT_WRITE-BASELINE": "",
+      });
+      assert.deepEqual(getBaselineConfig(), {
+        file: "spectr-baseline.json",
+        matches: "notice",
+        write: false,
+      });
+    });
+
+    it("should reject unknown match modes", () => {
+      restoreEnv = mockEnv({
+        INPUT_BASELINE: "spectr-baseline.json",
+        "INPUT_BASELINE-MATCHES": "ignore",
+        "INPUT_WRITE-BASELINE": "",
+      });
+      assert.throws(() => getBaselineConfig(), {
+        message: /Invalid baseline-matches value/,
+      });
+    });
+
+    it("should require a path when writing", () => {
+      restoreEnv = mockEnv({
+        INPUT_BASELINE: "",
+        "INPUT_BASELINE-MATCHES": "",
+        "INPUT_WRITE-BASELINE": "true",
+      });
+      assert.throws(() => getBaselineConfig(), {
+        message: /write-baseline requires the baseline input/,
+      });
+    });
+  });
+
+  describe("getCompatibilityConfig", () => {
+    let restoreEnv: () => void = () => {};
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should default to warnings for the newest release", () => {
+      restoreEnv = mockEnv({
+        "INPUT_LATEST-COMPATIBLE": "",
+        "INPUT_UNSUPPORTED-VERSION": "",
+      });
+      assert.deepEqual(getCompatibilityConfig(), {
+        latestCompatible: false,
+        unsupportedVersion: "warning",
+      });
+    });
+
+    it("should read the inputs", () => {
+      restoreEnv = mockEnv({
+        "INPUT_LATEST-COMPATIBLE": "true",
+        "INPUT_UNSUPPORTED-VERSION": "Error",
+      });
+      assert.deepEqual(getCompatibilityConfig(), {
+        latestCompatible: true,
+        unsupportedVersion: "error",
+      });
+    });
+
+    it("should reject unknown modes", () => {
+      restoreEnv = mockEnv({
+        "INPUT_LATEST-COMPATIBLE": "",
+        "INPUT_UNSUPPORTED-VERSION": "fail",
+      });
+      assert.throws(() => getCompatibilityConfig(), {
+        message: /Invalid unsupported-version value/,
+      });
+    });
+  });
+
+  describe("getBuildConfig", () => {
+    let restoreEnv: () => void = () => {};
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should not build from source by default", () => {
+      restoreEnv = mockEnv({
+        "INPUT_BUILD-FROM-SOURCE": "",
+        "INPUT_SPECTR-SOURCE": "",
+      });
+      assert.deepEqual(getBuildConfig(), { enabled: false, sourcePath: "" });
+    });
+
+    it("should read the inputs", () => {
+      restoreEnv = mockEnv({
+        "INPUT_BUILD-FROM-SOURCE": "True",
+        "INPUT_SPECTR-SOURCE": " ./vendor/spectr ",
+      });
+      assert.deepEqual(getBuildConfig(), {
+        enabled: true,
+        sourcePath: "./vendor/spectr",
+      });
+    });
+  });
+
+  describe("getInstallConfig", () => {
+    let restoreEnv: () => void = () => {};
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should download by default", () => {
+      restoreEnv = mockEnv({ INPUT_INSTALL: "", "INPUT_SPECTR-PATH": "" });
+      assert.deepEqual(getInstallConfig(), { mode: "always", spectrPath: "" });
+    });
+
+    it("should map install values to modes", () => {
+      restoreEnv = mockEnv({
+        INPUT_INSTALL: "False",
+        "INPUT_SPECTR-PATH": " /opt/spectr/bin/spectr ",
+      });
+      assert.deepEqual(getInstallConfig(), {
+        mode: "never",
+        spectrPath: "/opt/spectr/bin/spectr",
+      });
+      restoreEnv();
+      restoreEnv = mockEnv({
+        INPUT_INSTALL: "prefer-system",
+        "INPUT_SPECTR-PATH": "",
+      });
+      assert.equal(getInstallConfig().mode, "prefer-system");
+    });
+
+    it("should reject unknown values", () => {
+      restoreEnv = mockEnv({ INPUT_INSTALL: "maybe", "INPUT_SPECTR-PATH": "" });
+      assert.throws(() => getInstallConfig(), {
+        message: /Invalid install value/,
+      });
+    });
+  });
+
+  describe("getIssueSyncConfig", () => {
+    let restoreEnv: () => void = () => {};
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should use the workflow's GitHub instance whatever api-url is", () => {
+      restoreEnv = mockEnv({
+        GITHUB_API_URL: "https://ghes.example.com/api/v3",
+        "INPUT_API-URL": "https://api.github.com",
+      });
+      assert.equal(
+        getIssueSyncConfig().apiUrl,
+        "https://ghes.example.com/api/v3",
+      );
+    });
+  });
+
+  describe("getReleaseSource", () => {
+    let restoreEnv: () => void = () => {};
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should default to upstream on github.com", () => {
+      restoreEnv = mockEnv({
+        GITHUB_API_URL: "https://ghes.example.com/api/v3",
+        "INPUT_API-URL": "",
+        "INPUT_DOWNLOAD-URL": "",
+        "INPUT_SPECTR-REPOSITORY": "",
+      });
+      assert.deepEqual(getReleaseSource(), {
+        apiUrl: "https://api.github.com",
+        downloadUrl:
+          "https://github.com/{owner}/{repo}/releases/download/{version}/{asset}",
+        owner: "connerohnesorge",
+        repo: "spectr",
+      });
+    });
+
+    it("should apply the overrides", () => {
+      restoreEnv = mockEnv({
+        "INPUT_API-URL": "https://ghes.example.com/api/v3/",
+        "INPUT_DOWNLOAD-URL": "https://mirror.example.com/spectr",
+        "INPUT_SPECTR-REPOSITORY": "tools/spectr",
+      });
+      assert.deepEqual(getReleaseSource(), {
+        apiUrl: "https://ghes.example.com/api/v3",
+        downloadUrl: "https://mirror.example.com/spectr",
+        owner: "tools",
+        repo: "spectr",
+      });
+    });
+
+    it("should reject invalid URLs", () => {
+      restoreEnv = mockEnv({
+        "INPUT_API-URL": "",
+        "INPUT_DOWNLOAD-URL": "ftp://mirror.example.com/spectr",
+        "INPUT_SPECTR-REPOSITORY": "",
+      });
+      assert.throws(() => getReleaseSource(), {
+        message: /Invalid download-url value/,
+      });
+    });
+  });
+
+  describe("getReleaseSelectionConfig", () => {
+    let restoreEnv: () => void = () => {};
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should exclude prereleases by default", () => {
+      restoreEnv = mockEnv({
+        "INPUT_COMMIT-TAG-PATTERN": "",
+        "INPUT_INCLUDE-PRERELEASES": "",
+      });
+      assert.deepEqual(getReleaseSelectionConfig(), {
+        commitTagPattern: "*{sha}*",
+        includePrereleases: false,
+      });
+    });
+
+    it("should read the inputs", () => {
+      restoreEnv = mockEnv({
+        "INPUT_COMMIT-TAG-PATTERN": "nightly-{sha}",
+        "INPUT_INCLUDE-PRERELEASES": "true",
+      });
+      assert.deepEqual(getReleaseSelectionConfig(), {
+        commitTagPattern: "nightly-{sha}",
+        includePrereleases: true,
+      });
+    });
+
+    it("should reject patterns without {sha}", () => {
+      restoreEnv = mockEnv({
+        "INPUT_COMMIT-TAG-PATTERN": "nightly-*",
+        "INPUT_INCLUDE-PRERELEASES": "",
+      });
+      assert.throws(() => getReleaseSelectionConfig(), {
+        message: /Invalid commit-tag-pattern value/,
+      });
+    });
+  });
+
+  describe("getResolutionStrategy", () => {
+    let restoreEnv: () => void = () => {};
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should default to online", () => {
+      restoreEnv = mockEnv({ "INPUT_RESOLUTION-STRATEGY": "" });
+      assert.equal(getResolutionStrategy(), "online");
+    });
+
+    it("should accept the strategies", () => {
+      restoreEnv = mockEnv({ "INPUT_RESOLUTION-STRATEGY": "Cache-First" });
+      assert.equal(getResolutionStrategy(), "cache-first");
+    });
+
+    it("should reject unknown strategies", () => {
+      restoreEnv = mockEnv({ "INPUT_RESOLUTION-STRATEGY": "cache-only" });
+      assert.throws(() => getResolutionStrategy(), {
+        message: /Invalid resolution-strategy value/,
+      });
+    });
+  });
+
+  describe("getCacheConfig", () => {
+    let restoreEnv: () => void = () => {};
+
+    afterEach(() => {
+      restoreEnv();
+    });
+
+    it("should cache for an hour by default", () => {
+      restoreEnv = mockEnv({ INPUT_CACHE: "", "INPUT_RELEASE-LIST-TTL": "" });
+      assert.deepEqual(getCacheConfig(), {
+        enabled: true,
+        releaseListTtl: 60,
+      });
+    });
+
+    it("should read the inputs", () => {
+      restoreEnv = mockEnv({
+        INPUT_CACHE: "false",
+        "INPUT_RELEASE-LIST-TTL": "0",
+      });
+      assert.deepEqual(getCacheConfig(), {
+        enabled: false,
+        releaseListTtl: 0,
+      });
+    });
+
+    it("should reject invalid TTLs", () => {
+      restoreEnv = mockEnv({ INPUT_CACHE: "", "INPUT_RELEASE-LIST-TTL": "1h" });
+      assert.throws(() => getCacheConfig(), {
+        message: /Invalid release-list-ttl value/,
+      });
+    });
+  });
+});
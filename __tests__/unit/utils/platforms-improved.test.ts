@@ -29,6 +29,12 @@ describe("Platform Utilities (Improved)", () => {
       assert.equal(result, "x86_64");
     });
 
+    it("should map riscv64 to riscv64", () => {
+      restore = mockArch("riscv64");
+      const result = getArch();
+      assert.equal(result, "riscv64");
+    });
+
     it("should return undefined for unsupported architecture", () => {
       restore = mockArch("unsupported");
       const result = getArch();
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import {
+  findProjects,
+  parseSrcInput,
+  toProjectRoot,
+} from "../../../src/utils/projects";
+
+describe("projects.ts", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), "spectr-test-")),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { force: true, recursive: true });
+  });
+
+  function createProject(relativePath: string) {
+    const spectrDir = path.join(tempDir, relativePath, "spectr");
+    fs.mkdirSync(path.join(spectrDir, "specs"), { recursive: true });
+    fs.writeFileSync(path.join(spectrDir, "project.md"), "# Project\n");
+  }
+
+  describe("parseSrcInput", () => {
+    it("should default to the workspace root", () => {
+      assert.deepEqual(parseSrcInput(""), ["."]);
+    });
+
+    it("should split newline-separated entries and skip blanks and comments", () => {
+      assert.deepEqual(
+        parseSrcInput("docs\r\n\n  # legacy\nservices/*/spectr\n"),
+        ["docs", "services/*/spectr"],
+      );
+    });
+  });
+
+  describe("toProjectRoot", () => {
+    it("should map a spectr/ directory to its parent", () => {
+      createProject("docs");
+      assert.equal(
+        toProjectRoot(path.join(tempDir, "docs", "spectr")),
+        path.join(tempDir, "docs"),
+      );
+    });
+
+    it("should map a file inside spectr/ to the project root", () => {
+      createProject("docs");
+      assert.equal(
+        toProjectRoot(path.join(tempDir, "docs", "spectr", "project.md")),
+        path.join(tempDir, "docs"),
+      );
+    });
+
+    it("should keep a directory named spectr that contains a spectr/ tree", () => {
+      createProject("spectr");
+      assert.equal(
+        toProjectRoot(path.join(tempDir, "spectr")),
+        path.join(tempDir, "spectr"),
+      );
+    });
+  });
+
+  describe("findProjects", () => {
+    it("should return the workspace root by default", async () => {
+      createProject(".");
+      const projects = await findProjects("", tempDir);
+      assert.deepEqual(projects, [{ name: ".", path: tempDir }]);
+    });
+
+    it("should resolve a plain directory", async () => {
+      createProject("docs");
+      const projects = await findProjects("docs", tempDir);
+      assert.deepEqual(projects, [
+        { name: "docs", path: path.join(tempDir, "docs") },
+      ]);
+    });
+
+    it("should throw for a missing directory", async () => {
+      await assert.rejects(findProjects("missing", tempDir), {
+        message: /Project root does not exist/,
+      });
+    });
+
+    it("should expand globs and deduplicate projects", async () => {
+      createProject(path.join("services", "billing"));
+      createProject(path.join("services", "auth"));
+
+      const projects = await findProjects(
+        "**/spectr/project.md\nservices/auth",
+        tempDir,
+      );
+      assert.deepEqual(
+        projects.map((p) => p.name),
+        ["services/auth", "services/billing"],
+      );
+    });
+
+    it("should throw when a glob matches nothing", async () => {
+      await assert.rejects(findProjects("**/spectr/project.md", tempDir), {
+        message: /No Spectr projects matched pattern/,
+      });
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import {
+  getSpectrVersionFromFile,
+  getVersionInput,
+} from "../../../src/utils/version-file";
+
+describe("version-file.ts", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "spectr-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { force: true, recursive: true });
+  });
+
+  function writeFile(name: string, content: string): string {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  describe("getSpectrVersionFromFile", () => {
+    it("should read .tool-versions", () => {
+      const file = writeFile(
+        ".tool-versions",
+        "nodejs 20.11.0\n# pinned tools\nspectr 0.3.1 0.3.0\n",
+      );
+      const result = getSpectrVersionFromFile(file);
+      assert.deepEqual(result, { file, line: 3, version: "0.3.1" });
+    });
+
+    it("should read a string value from mise.toml [tools]", () => {
+      const file = writeFile(
+        "mise.toml",
+        '[env]\nspectr = "ignored"\n\n[tools]\nnode = "20"\nspectr = "0.4.0" # pinned\n',
+      );
+      const result = getSpectrVersionFromFile(file);
+      assert.equal(result.version, "0.4.0");
+      assert.equal(result.line, 6);
+    });
+
+    it("should read inline tables and backend keys from mise.toml", () => {
+      const inline = writeFile(
+        ".mise.toml",
+        '[tools]\nspectr = { version = "0.5.0" }\n',
+      );
+      assert.equal(getSpectrVersionFromFile(inline).version, "0.5.0");
+
+      const backend = writeFile(
+        "mise.toml",
+        '[tools]\n"ubi:connerohnesorge/spectr" = ["0.6.0", "0.5.0"]\n',
+      );
+      assert.equal(getSpectrVersionFromFile(backend).version, "0.6.0");
+    });
+
+    it("should read a tagged flake input from flake.nix", () => {
+      const file = writeFile(
+        "flake.nix",
+        [
+          "{",
+          "  inputs = {",
+          '    nixpkgs.url = "github:NixOS/nixpkgs/nixpkgs-unstable";',
+          '    spectr.url = "github:connerohnesorge/spectr/v0.2.0";',
+          "  };",
+          "}",
+        ].join("\n"),
+      );
+      const result = getSpectrVersionFromFile(file);
+      assert.equal(result.version, "v0.2.0");
+      assert.equal(result.line, 4);
+    });
+
+    it("should read a ?ref= flake input", () => {
+      const file = writeFile(
+        "flake.nix",
+        'spectr.url = "github:connerohnesorge/spectr?ref=v1.0.0-rc.1";\n',
+      );
+      assert.equal(getSpectrVersionFromFile(file).version, "v1.0.0-rc.1");
+    });
+
+    it("should read the first non-comment line of a plain file", () => {
+      const file = writeFile(".spectr-version", "# comment\n\n0.1.0\n");
+      const result = getSpectrVersionFromFile(file);
+      assert.equal(result.version, "0.1.0");
+      assert.equal(result.line, 3);
+    });
+
+    it("should throw when the file does not exist", () => {
+      assert.throws(
+        () => getSpectrVersionFromFile(path.join(tempDir, "missing")),
+        { message: /Version file not found/ },
+      );
+    });
+
+    it("should throw when no spectr version is present", () => {
+      const file = writeFile(".tool-versions", "nodejs 20.11.0\n");
+      assert.throws(() => getSpectrVersionFromFile(file), {
+        message: /No Spectr version found/,
+      });
+    });
+  });
+
+  describe("getVersionInput", () => {
+    it("should default to latest when neither input is set", () => {
+      assert.deepEqual(getVersionInput("", "", tempDir), {
+        version: "latest",
+      });
+    });
+
+    it("should pass the version input through", () => {
+      assert.deepEqual(getVersionInput("0.1.0", "", tempDir), {
+        version: "0.1.0",
+      });
+    });
+
+    it("should resolve the version file relative to the workspace", () => {
+      writeFile(".spectr-version", "0.2.0\n");
+      const result = getVersionInput("", ".spectr-version", tempDir);
+      assert.equal(result.version, "0.2.0");
+      assert.equal(result.source?.line, 1);
+    });
+
+    it("should throw when both inputs are set", () => {
+      assert.throws(
+        () => getVersionInput("0.1.0", ".spectr-version", tempDir),
+        {
+          message: /cannot be used together/,
+        },
+      );
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Building spectr from source
+ *
+ * Releases only publish archives for the platform and architecture pairs
+ * GoReleaser builds. Elsewhere, e.g. on i386 macOS or riscv64 Linux, the
+ * download fails with a 404; when enabled, the action then builds spectr
+ * with the Go toolchain on PATH instead: `go install` of the upstream module
+ * at the resolved tag, or `go build` in a local checkout. Releases of another
+ * repository can only be built from a checkout, since Go fetches modules by
+ * the path their go.mod declares. The binary is cached with `tc.cacheDir`
+ * like a downloaded release.
+ * A build is not verified like a download, so it is refused when a checksum
+ * is pinned, and only used when the release exists without an asset for the
+ * runner; other 404s (a misspelled version, a broken mirror) stay errors
+ */
+
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as core from "@actions/core";
+import * as exec from "@actions/exec";
+import * as io from "@actions/io";
+import * as tc from "@actions/tool-cache";
+import { OWNER, REPO, TOOL_CACHE_NAME } from "../utils/constants";
+import type { Architecture, Platform } from "../utils/platforms";
+import type { ReleaseSource } from "./source";
+
+/**
+ * Configuration for building spectr from source
+ */
+export interface BuildConfig {
+  /** Build from source when the release has no asset for the runner */
+  enabled: boolean;
+  /** Local checkout to build instead of the resolved tag; empty when not set */
+  sourcePath: string;
+}
+
+/**
+ * Check if a download failed because the release has no such asset
+ */
+export function isMissingAssetError(error: unknown): boolean {
+  return error instanceof tc.HTTPError && error.httpStatusCode === 404;
+}
+
+/**
+ * Check that a failed download may be replaced by a build from source
+ * @param checksum - Pinned checksum of the release asset; empty when not set
+ * @param assetName - Release asset for the runner
+ * @param releaseAssets - Assets of the release, or undefined if the release
+ * does not exist
+ * @throws Error if the release does not exist, has the asset, or a checksum
+ * is pinned
+ */
+export function checkBuildFallback(
+  checksum: string | undefined,
+  version: string,
+  assetName: string,
+  releaseAssets: string[] | undefined,
+): void {
+  if (releaseAssets === undefined) {
+    throw new Error(`spectr release ${version} was not found`);
+  }
+  if (releaseAssets.includes(assetName)) {
+    throw new Error(
+      `spectr release ${version} has the asset ${assetName}, but downloading it failed with 404. Check download-url`,
+    );
+  }
+  if (checksum) {
+    throw new Error(
+      `spectr release ${version} has no asset ${assetName}, and a build from source cannot be verified against the checksum input`,
+    );
+  }
+}
+
+/**
+ * Go module path of spectr
+ */
+export const MODULE_PATH = `github.com/${OWNER}/${REPO}`;
+
+/**
+ * Build spectr with the Go toolchain and add it to the tool cache
+ * @param version - Resolved release tag, built with `go install` unless a
+ * local checkout is configured; also the tool cache version
+ * @throws Error if another repository is configured without a local
+ * checkout, Go is not on PATH or the build fails
+ */
+export async function buildFromSource(
+  config: BuildConfig,
+  source: ReleaseSource,
+  version: string,
+  platform: Platform,
+  arch: Architecture,
+): Promise<{ version: string; cachedToolDir: string }> {
+  if (!config.sourcePath && (source.owner !== OWNER || source.repo !== REPO)) {
+    throw new Error(
+      `Building spectr ${version} of ${source.owner}/${source.repo} requires spectr-source, since go install only fetches ${MODULE_PATH}`,
+    );
+  }
+  const goPath = await io.which("go", false);
+  if (!goPath) {
+    throw new Error(
+      `No spectr ${version} release asset exists for ${platform} ${arch}, and Go was not found on PATH to build it from source`,
+    );
+  }
+
+  const binDir = await fs.mkdtemp(
+    path.join(process.env.RUNNER_TEMP || os.tmpdir(), "spectr-build-"),
+  );
+  if (config.sourcePath) {
+    core.info(`Building spectr from ${config.sourcePath} with go build...`);
+    const executableName = platform === "Windows" ? "spectr.exe" : "spectr";
+    await exec.exec(
+      goPath,
+      ["build", "-o", path.join(binDir, executableName), "."],
+      {
+        cwd: config.sourcePath,
+      },
+    );
+  } else {
+    const module = `${MODULE_PATH}@${version}`;
+    core.info(`Building spectr with go install ${module}...`);
+    await exec.exec(goPath, ["install", module], {
+      env: { ...process.env, GOBIN: binDir } as Record<string, string>,
+    });
+  }
+
+  const cachedToolDir = await tc.cacheDir(
+    binDir,
+    TOOL_CACHE_NAME,
+    version,
+    arch,
+  );
+  return { cachedToolDir, version };
+}
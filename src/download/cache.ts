@@ -0,0 +1,255 @@
+/**
+ * Cross-job caching with @actions/cache
+ *
+ * The runner tool cache does not outlive a job on hosted runners, so every
+ * job of a matrix would list the releases and download spectr again. Two
+ * entries are persisted in the Actions cache instead:
+ * - the installed binary directory, keyed by release, version, platform and
+ *   arch
+ * - the release list, keyed by release repository and a time bucket of the
+ *   TTL so it expires
+ * Cache failures never fail the action; they are logged and skipped
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as cache from "@actions/cache";
+import * as core from "@actions/core";
+import * as semver from "semver";
+import { TOOL_CACHE_NAME } from "../utils/constants";
+import type { Architecture, Platform } from "../utils/platforms";
+import type { ReleaseInfo } from "./releases";
+import type { ReleaseSource } from "./source";
+
+/**
+ * Configuration for cross-job caching
+ */
+export interface CacheConfig {
+  /** Persist the binary and release list in the Actions cache */
+  enabled: boolean;
+  /** How long a cached release list is used, in minutes; 0 disables it */
+  releaseListTtl: number;
+}
+
+/**
+ * Configuration with caching turned off
+ */
+export const CACHE_DISABLED: CacheConfig = {
+  enabled: false,
+  releaseListTtl: 0,
+};
+
+/**
+ * Cached release list file contents
+ */
+export interface ReleaseList {
+  /** Repository the releases were listed from, as owner/repo */
+  repository: string;
+  /** When the list was fetched, as an ISO timestamp */
+  fetchedAt: string;
+  /** Releases, most recent first */
+  releases: ReleaseInfo[];
+}
+
+const RELEASE_LIST_FILE = "spectr-releases.json";
+
+/**
+ * Cache key of an installed spectr binary
+ */
+export function getBinaryCacheKey(
+  source: ReleaseSource,
+  version: string,
+  platform: Platform,
+  arch: Architecture,
+): string {
+  return `spectr-binary-${source.owner}-${source.repo}-${version}-${platform}-${arch}`;
+}
+
+/**
+ * Cache key of the release list
+ * The key changes every TTL, so a saved list is not restored once expired
+ * @param now - Current time in milliseconds
+ */
+export function getReleaseListCacheKey(
+  source: ReleaseSource,
+  ttlMinutes: number,
+  now: number = Date.now(),
+): string {
+  const bucket = Math.floor(now / (ttlMinutes * 60_000));
+  return `spectr-releases-${source.owner}-${source.repo}-${ttlMinutes}m-${bucket}`;
+}
+
+/**
+ * Path of a version in the runner tool cache, as used by `tc.cacheDir`
+ */
+export function getToolCachePath(version: string, arch: Architecture): string {
+  const cacheRoot = process.env.RUNNER_TOOL_CACHE;
+  if (!cacheRoot) {
+    throw new Error("RUNNER_TOOL_CACHE environment variable is not set");
+  }
+  return path.join(
+    cacheRoot,
+    TOOL_CACHE_NAME,
+    semver.clean(version) || version,
+    arch,
+  );
+}
+
+/**
+ * Restore a binary saved by an earlier job into the runner tool cache
+ * @returns Whether the binary was restored
+ */
+export async function restoreBinaryCache(
+  key: string,
+  toolPath: string,
+): Promise<boolean> {
+  if (!isCacheAvailable()) {
+    return false;
+  }
+  try {
+    const restoredKey = await cache.restoreCache(getBinaryPaths(toolPath), key);
+    if (restoredKey) {
+      core.info(`Restored spectr from the Actions cache (${key})`);
+      return true;
+    }
+    core.debug(`No Actions cache entry for ${key}`);
+  } catch (error) {
+    core.warning(
+      `Failed to restore spectr from the Actions cache: ${(error as Error).message}`,
+    );
+  }
+  return false;
+}
+
+/**
+ * Save an installed binary for later jobs
+ * @param toolPath - Directory of the version in the runner tool cache
+ */
+export async function saveBinaryCache(
+  key: string,
+  toolPath: string,
+): Promise<void> {
+  if (!isCacheAvailable()) {
+    return;
+  }
+  try {
+    await cache.saveCache(getBinaryPaths(toolPath), key);
+    core.info(`Saved spectr to the Actions cache (${key})`);
+  } catch (error) {
+    core.warning(
+      `Failed to save spectr to the Actions cache: ${(error as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Get the releases, from the cache while the cached list is fresh
+ * @param config - Cache configuration
+ * @param source - Repository the releases are listed from
+ * @param listReleases - Lists the releases over the API on a cache miss
+ * @returns Releases, most recent first
+ */
+export async function getCachedReleaseList(
+  config: CacheConfig,
+  source: ReleaseSource,
+  listReleases: () => Promise<ReleaseInfo[]>,
+): Promise<ReleaseInfo[]> {
+  if (!config.enabled || config.releaseListTtl <= 0) {
+    return await listReleases();
+  }
+
+  const filePath = getReleaseListPath();
+  const key = getReleaseListCacheKey(source, config.releaseListTtl);
+  if (!fs.existsSync(filePath) && isCacheAvailable()) {
+    try {
+      await cache.restoreCache([filePath], key);
+    } catch (error) {
+      core.warning(
+        `Failed to restore the release list from the Actions cache: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  const cached = readReleaseList(filePath, source, config.releaseListTtl);
+  if (cached) {
+    core.info(
+      `Using the release list of ${cached.repository} cached at ${cached.fetchedAt}`,
+    );
+    return cached.releases;
+  }
+
+  const releases = await listReleases();
+  writeReleaseList(filePath, {
+    fetchedAt: new Date().toISOString(),
+    releases,
+    repository: `${source.owner}/${source.repo}`,
+  });
+  if (isCacheAvailable()) {
+    try {
+      await cache.saveCache([filePath], key);
+    } catch (error) {
+      core.warning(
+        `Failed to save the release list to the Actions cache: ${(error as Error).message}`,
+      );
+    }
+  }
+  return releases;
+}
+
+/**
+ * Read a cached release list
+ * @param now - Current time in milliseconds
+ * @returns The list, or undefined if it is missing, invalid, for another
+ * repository or older than the TTL
+ */
+export function readReleaseList(
+  filePath: string,
+  source: ReleaseSource,
+  ttlMinutes: number,
+  now: number = Date.now(),
+): ReleaseList | undefined {
+  let list: Partial<ReleaseList>;
+  try {
+    list = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch {
+    return undefined;
+  }
+  const fetchedAt = Date.parse(list.fetchedAt ?? "");
+  if (
+    list.repository !== `${source.owner}/${source.repo}` ||
+    !Array.isArray(list.releases) ||
+    Number.isNaN(fetchedAt) ||
+    now - fetchedAt > ttlMinutes * 60_000
+  ) {
+    return undefined;
+  }
+  return list as ReleaseList;
+}
+
+/**
+ * Write a release list file
+ */
+export function writeReleaseList(filePath: string, list: ReleaseList): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(list));
+}
+
+function getReleaseListPath(): string {
+  return path.join(process.env.RUNNER_TEMP || ".", RELEASE_LIST_FILE);
+}
+
+/**
+ * The tool cache marks complete versions with a `<arch>.complete` file next
+ * to the version directory, which must be restored as well
+ */
+function getBinaryPaths(toolPath: string): string[] {
+  return [toolPath, `${toolPath}.complete`];
+}
+
+function isCacheAvailable(): boolean {
+  if (cache.isFeatureAvailable()) {
+    return true;
+  }
+  core.debug("The Actions cache service is not available, skipping");
+  return false;
+}
@@ -0,0 +1,146 @@
+/**
+ * Checksum verification module
+ *
+ * Verifies downloaded release archives against the GoReleaser checksums file
+ * or a user-pinned SHA-256 digest
+ */
+
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as core from "@actions/core";
+import * as tc from "@actions/tool-cache";
+import type { ReleaseSource } from "./source";
+import {
+  constructAssetUrl,
+  getDefaultReleaseSource,
+  getDownloadToken,
+} from "./source";
+
+const CHECKSUMS_FILE = "checksums.txt";
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Verify a downloaded archive, throwing if its digest does not match
+ * @param downloadPath - Path to the downloaded archive
+ * @param assetName - Release asset file name (e.g. spectr_Linux_x86_64.tar.gz)
+ * @param version - Resolved release tag
+ * @param checksum - Pinned SHA-256 digest; skips the checksums file lookup when set
+ * @param githubToken - Token used to download the checksums file
+ * @param source - Release source the checksums file is downloaded from
+ */
+export async function validateChecksum(
+  downloadPath: string,
+  assetName: string,
+  version: string,
+  checksum: string | undefined,
+  githubToken: string,
+  source: ReleaseSource = getDefaultReleaseSource(),
+): Promise<void> {
+  let expected: string;
+  if (checksum) {
+    core.debug(`Using pinned checksum for ${assetName}`);
+    expected = normalizeChecksum(checksum);
+  } else {
+    expected = await fetchReleaseChecksum(
+      version,
+      assetName,
+      githubToken,
+      source,
+    );
+  }
+
+  const actual = await calculateFileChecksum(downloadPath);
+  if (actual !== expected) {
+    throw new Error(
+      `Checksum mismatch for ${assetName}: expected ${expected}, got ${actual}`,
+    );
+  }
+  core.info(`Verified SHA-256 checksum of ${assetName}`);
+}
+
+/**
+ * Download the release checksums file and look up the digest of an asset
+ * @param version - Release tag
+ * @param assetName - Release asset file name
+ * @param githubToken - Token used to download the checksums file
+ * @param source - Release source the checksums file is downloaded from
+ * @returns Expected SHA-256 digest
+ */
+export async function fetchReleaseChecksum(
+  version: string,
+  assetName: string,
+  githubToken: string,
+  source: ReleaseSource = getDefaultReleaseSource(),
+): Promise<string> {
+  const url = constructAssetUrl(source, version, CHECKSUMS_FILE);
+  core.debug(`Downloading checksums from "${url}" ...`);
+
+  let checksumsPath: string;
+  try {
+    checksumsPath = await tc.downloadTool(
+      url,
+      undefined,
+      getDownloadToken(url, githubToken),
+    );
+  } catch (err) {
+    throw new Error(
+      `Failed to download ${CHECKSUMS_FILE} for ${version}: ${(err as Error).message}. Set the 'checksum' input to pin a known digest instead.`,
+    );
+  }
+
+  const checksums = parseChecksumFile(
+    await fs.promises.readFile(checksumsPath, "utf-8"),
+  );
+  const expected = checksums.get(assetName);
+  if (expected === undefined) {
+    throw new Error(`No checksum for ${assetName} in ${CHECKSUMS_FILE}`);
+  }
+  return expected;
+}
+
+/**
+ * Parse a GoReleaser checksums file
+ * Each line has the form: `<sha256>  <file name>`
+ * @param content - Raw checksums file content
+ * @returns Map of file name to lowercase SHA-256 digest
+ */
+export function parseChecksumFile(content: string): Map<string, string> {
+  const checksums = new Map<string, string>();
+
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.trim().match(/^([a-fA-F0-9]{64})\s+\*?(.+)$/);
+    if (match) {
+      checksums.set(match[2].trim(), match[1].toLowerCase());
+    }
+  }
+
+  return checksums;
+}
+
+/**
+ * Calculate the SHA-256 digest of a file
+ * @param filePath - Path to the file
+ * @returns Lowercase hex digest
+ */
+export async function calculateFileChecksum(filePath: string): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  const stream = fs.createReadStream(filePath);
+  for await (const chunk of stream) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Normalize a user-supplied digest, accepting an optional `sha256:` prefix
+ */
+function normalizeChecksum(checksum: string): string {
+  const normalized = checksum
+    .trim()
+    .toLowerCase()
+    .replace(/^sha256:/, "");
+  if (!SHA256_PATTERN.test(normalized)) {
+    throw new Error(`Invalid SHA-256 checksum: ${checksum}`);
+  }
+  return normalized;
+}
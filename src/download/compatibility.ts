@@ -0,0 +1,93 @@
+/**
+ * Spectr version compatibility
+ *
+ * The action parses `spectr validate --json` output, so it only works with
+ * the releases whose output format it knows. The supported range is checked
+ * after the version is resolved; widen it together with the output adapters
+ * in `../types/adapters` when a new release changes the format
+ */
+
+import * as core from "@actions/core";
+import * as semver from "semver";
+
+/**
+ * Range of spectr versions the action supports
+ */
+export const SUPPORTED_SPECTR_RANGE = ">=0.1.0 <1.0.0";
+
+/**
+ * How a resolved version outside the supported range is reported
+ * - error: fail the action
+ * - warning: annotate a warning and continue
+ * - ignore: continue silently
+ */
+export type UnsupportedVersionMode = "error" | "warning" | "ignore";
+
+/**
+ * Configuration for the version compatibility check
+ */
+export interface CompatibilityConfig {
+  /** How unsupported versions are reported */
+  unsupportedVersion: UnsupportedVersionMode;
+  /** Resolve `latest` to the newest supported release instead */
+  latestCompatible: boolean;
+}
+
+/**
+ * Check if a version is in the supported range
+ * Prereleases are compared like their release
+ * @returns undefined if the version is not semver (e.g. a local build)
+ */
+export function isSupportedVersion(
+  version: string,
+  range: string = SUPPORTED_SPECTR_RANGE,
+): boolean | undefined {
+  const parsed = semver.parse(version);
+  if (!parsed) {
+    return undefined;
+  }
+  return semver.satisfies(parsed, range, { includePrerelease: true });
+}
+
+/**
+ * Report a resolved version outside the supported range
+ * @param version - Resolved spectr version, with or without a `v` prefix
+ * @param mode - How an unsupported version is reported
+ * @throws Error if the version is unsupported and mode is `error`
+ */
+export function checkVersionCompatibility(
+  version: string,
+  mode: UnsupportedVersionMode,
+  range: string = SUPPORTED_SPECTR_RANGE,
+): void {
+  const supported = isSupportedVersion(version, range);
+  if (supported === undefined) {
+    core.debug(
+      `Skipping compatibility check for non-semver version ${version}`,
+    );
+    return;
+  }
+  if (supported || mode === "ignore") {
+    return;
+  }
+
+  const message = `Spectr ${version} is outside the range supported by this action (${range}); its output may not be understood.`;
+  if (mode === "error") {
+    throw new Error(
+      `${message} Use a supported version, or set 'unsupported-version: warning' to continue anyway`,
+    );
+  }
+  core.warning(message);
+}
+
+/**
+ * Find the newest stable release in the supported range
+ * @param versions - Release tags, with or without a `v` prefix
+ * @returns The matching tag as given, or undefined if none match
+ */
+export function maxCompatibleVersion(
+  versions: string[],
+  range: string = SUPPORTED_SPECTR_RANGE,
+): string | undefined {
+  return semver.maxSatisfying(versions, range) ?? undefined;
+}
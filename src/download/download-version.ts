@@ -1,20 +1,49 @@
-import { promises as fs } from "node:fs";
+import { existsSync, promises as fs } from "node:fs";
 import * as path from "node:path";
 import * as core from "@actions/core";
 import * as tc from "@actions/tool-cache";
-import { Octokit } from "@octokit/core";
-import { paginateRest } from "@octokit/plugin-paginate-rest";
-import { restEndpointMethods } from "@octokit/plugin-rest-endpoint-methods";
-import { OWNER, REPO, TOOL_CACHE_NAME } from "../utils/constants";
+import * as semver from "semver";
+import { TOOL_CACHE_NAME } from "../utils/constants";
+import type { GitHubClientInstance } from "../utils/github-api";
+import { createGitHubClient, isGitHubApiError } from "../utils/github-api";
 import type { Architecture, Platform } from "../utils/platforms";
-
-const PaginatingOctokit = Octokit.plugin(paginateRest, restEndpointMethods);
+import type { CacheConfig } from "./cache";
+import {
+  CACHE_DISABLED,
+  getCachedReleaseList,
+  getToolCachePath,
+} from "./cache";
+import { validateChecksum } from "./checksum";
+import { maxCompatibleVersion, SUPPORTED_SPECTR_RANGE } from "./compatibility";
+import type { ReleaseInfo } from "./releases";
+import {
+  isCommitSha,
+  isReleaseChannel,
+  selectNewest,
+  selectRelease,
+} from "./releases";
+import type { ReleaseSource } from "./source";
+import {
+  constructAssetUrl,
+  getApiToken,
+  getDefaultReleaseSource,
+  getDownloadToken,
+} from "./source";
 
 export function tryGetFromToolCache(
   arch: Architecture,
   version: string,
 ): { version: string; installedPath: string | undefined } {
   core.debug(`Trying to get spectr from tool cache for ${version}...`);
+  if (!semver.clean(version)) {
+    // tc.find only matches semver versions, but tc.cacheDir stores other
+    // tags, such as nightly builds, under their name
+    const toolPath = getToolCachePath(version, arch);
+    const installedPath = existsSync(`${toolPath}.complete`)
+      ? toolPath
+      : undefined;
+    return { installedPath, version };
+  }
   const cachedVersions = tc.findAllVersions(TOOL_CACHE_NAME, arch);
   core.debug(`Cached versions: ${cachedVersions}`);
   let resolvedVersion = tc.evaluateVersions(cachedVersions, version);
@@ -25,27 +54,85 @@ export function tryGetFromToolCache(
   return { installedPath, version: resolvedVersion };
 }
 
+/**
+ * How the version input is resolved
+ * - online: ask the GitHub API for `latest` and ranges
+ * - cache-first: use the newest satisfying version in the tool cache, and
+ *   ask the GitHub API only if there is none
+ * - offline: use the tool cache only, never the network
+ */
+export type ResolutionStrategy = "online" | "cache-first" | "offline";
+
+/**
+ * Default tag pattern of builds published per commit
+ */
+export const DEFAULT_COMMIT_TAG_PATTERN = "*{sha}*";
+
+/**
+ * Resolve a version input against the versions in the tool cache
+ * @param versionInput - `latest`, an explicit version or a semver range
+ * Channels and commit SHAs need the release metadata and never resolve
+ * from the cache
+ * @param latestCompatible - Resolve `latest` to the newest cached version in
+ * the supported range instead of the newest cached version
+ * @param includePrereleases - Let `latest` match cached prereleases
+ * @returns The newest satisfying cached version with a `v` prefix, or
+ * undefined if none is cached
+ */
+export function resolveCachedVersion(
+  arch: Architecture,
+  versionInput: string,
+  latestCompatible = false,
+  includePrereleases = false,
+): string | undefined {
+  if (isReleaseChannel(versionInput) || isCommitSha(versionInput)) {
+    return undefined;
+  }
+  const cachedVersions = tc.findAllVersions(TOOL_CACHE_NAME, arch);
+  core.debug(`Cached versions: ${cachedVersions}`);
+  let cachedVersion: string | null | undefined;
+  if (versionInput === "latest") {
+    cachedVersion = latestCompatible
+      ? maxCompatibleVersion(cachedVersions)
+      : semver.maxSatisfying(cachedVersions, "*", {
+          includePrerelease: includePrereleases,
+        });
+  } else {
+    cachedVersion = maxSatisfying(cachedVersions, versionInput);
+  }
+  return cachedVersion ? `v${semver.clean(cachedVersion)}` : undefined;
+}
+
 export async function downloadVersion(
   platform: Platform,
   arch: Architecture,
   version: string,
+  checksum: string | undefined,
   githubToken: string,
+  source: ReleaseSource = getDefaultReleaseSource(),
 ): Promise<{ version: string; cachedToolDir: string }> {
   const artifact = `spectr_${platform}_${arch}`;
-  let extension = ".tar.gz";
-  if (platform === "Windows") {
-    extension = ".zip";
-  }
-  const downloadUrl = constructDownloadUrl(version, platform, arch);
+  const extension = platform === "Windows" ? ".zip" : ".tar.gz";
+  const assetName = getAssetName(platform, arch);
+  const downloadUrl = constructAssetUrl(source, version, assetName);
   core.debug(`Downloading spectr from "${downloadUrl}" ...`);
 
   const downloadPath = await tc.downloadTool(
     downloadUrl,
     undefined,
-    githubToken,
+    getDownloadToken(downloadUrl, githubToken),
   );
   core.debug(`Downloaded spectr to "${downloadPath}"`);
 
+  await validateChecksum(
+    downloadPath,
+    assetName,
+    version,
+    checksum,
+    githubToken,
+    source,
+  );
+
   const extractedDir = await extractDownloadedArtifact(
     version,
     downloadPath,
@@ -63,19 +150,13 @@ export async function downloadVersion(
   return { cachedToolDir, version: version };
 }
 
-function constructDownloadUrl(
-  version: string,
-  platform: Platform,
-  arch: Architecture,
-): string {
-  // GoReleaser artifact naming: spectr_{Platform}_{arch}.{ext}
-  const artifact = `spectr_${platform}_${arch}`;
-  let extension = ".tar.gz";
-  if (platform === "Windows") {
-    extension = ".zip";
-  }
-  // Spectr releases use the version tag directly
-  return `https://github.com/${OWNER}/${REPO}/releases/download/${version}/${artifact}${extension}`;
+/**
+ * Name of the release asset for a platform and architecture
+ * GoReleaser artifact naming: spectr_{Platform}_{arch}.{ext}
+ */
+export function getAssetName(platform: Platform, arch: Architecture): string {
+  const extension = platform === "Windows" ? ".zip" : ".tar.gz";
+  return `spectr_${platform}_${arch}${extension}`;
 }
 
 async function extractDownloadedArtifact(
@@ -108,14 +189,54 @@ async function extractDownloadedArtifact(
   return spectrDir;
 }
 
+/**
+ * Options for resolving a version input
+ */
+export interface ResolveVersionOptions {
+  /**
+   * Resolve `latest` to the newest release in the supported range instead
+   * of the newest release
+   */
+  latestCompatible?: boolean;
+  /** Let `latest` and ranges match prereleases */
+  includePrereleases?: boolean;
+  /** Tag pattern of builds published per commit, for commit SHA inputs */
+  commitTagPattern?: string;
+  /** Repository and API the releases are listed from */
+  source?: ReleaseSource;
+  /** Caching of the release list across jobs */
+  cacheConfig?: CacheConfig;
+}
+
+/**
+ * Resolve a version input to a release tag
+ * @param versionInput - `latest`, `prerelease`, `nightly`, a commit SHA, an
+ * explicit version or a semver range
+ */
 export async function resolveVersion(
   versionInput: string,
   githubToken: string,
+  options: ResolveVersionOptions = {},
 ): Promise<string> {
+  const {
+    cacheConfig = CACHE_DISABLED,
+    commitTagPattern = DEFAULT_COMMIT_TAG_PATTERN,
+    includePrereleases = false,
+    latestCompatible = false,
+    source = getDefaultReleaseSource(),
+  } = options;
   core.debug(`Resolving ${versionInput}...`);
+  if (versionInput === "latest" && latestCompatible) {
+    return await getLatestCompatibleVersion(
+      githubToken,
+      source,
+      cacheConfig,
+      includePrereleases,
+    );
+  }
   const version =
-    versionInput === "latest"
-      ? await getLatestVersion(githubToken)
+    versionInput === "latest" && !includePrereleases
+      ? await getLatestVersion(githubToken, source)
       : versionInput;
   if (tc.isExplicitVersion(version)) {
     core.debug(`Version ${version} is an explicit version.`);
@@ -125,8 +246,11 @@ export async function resolveVersion(
     }
     return normalizedVersion;
   }
-  const availableVersions = await getAvailableVersions(githubToken);
-  const resolvedVersion = maxSatisfying(availableVersions, version);
+  const releases = await getAvailableReleases(githubToken, source, cacheConfig);
+  const resolvedVersion = selectRelease(releases, version, {
+    commitTagPattern,
+    includePrereleases,
+  });
   if (resolvedVersion === undefined) {
     throw new Error(`No version found for ${version}`);
   }
@@ -134,102 +258,161 @@ export async function resolveVersion(
   return resolvedVersion;
 }
 
-async function getAvailableVersions(githubToken: string): Promise<string[]> {
-  try {
-    const octokit = new PaginatingOctokit({
-      auth: githubToken,
-    });
-    return await getReleaseTagNames(octokit);
-  } catch (err) {
-    if ((err as Error).message.includes("Bad credentials")) {
-      core.info(
-        "No (valid) GitHub token provided. Falling back to anonymous. Requests might be rate limited.",
-      );
-      const octokit = new PaginatingOctokit();
-      return await getReleaseTagNames(octokit);
-    }
-    throw err;
+async function getLatestCompatibleVersion(
+  githubToken: string,
+  source: ReleaseSource,
+  cacheConfig: CacheConfig,
+  includePrereleases: boolean,
+): Promise<string> {
+  const releases = await getAvailableReleases(githubToken, source, cacheConfig);
+  const compatibleVersion = selectNewest(
+    releases.filter((release) => !release.draft),
+    SUPPORTED_SPECTR_RANGE,
+    includePrereleases,
+  );
+  if (compatibleVersion === undefined) {
+    throw new Error(
+      `No release of ${source.owner}/${source.repo} is in the supported range ${SUPPORTED_SPECTR_RANGE}`,
+    );
   }
+  core.info(
+    `Using newest compatible release: ${compatibleVersion} (supported range ${SUPPORTED_SPECTR_RANGE})`,
+  );
+  return compatibleVersion;
 }
 
-async function getReleaseTagNames(
-  octokit: InstanceType<typeof PaginatingOctokit>,
-): Promise<string[]> {
-  const response = await octokit.paginate(octokit.rest.repos.listReleases, {
-    owner: OWNER,
-    repo: REPO,
-  });
-  return response.map((release) => release.tag_name);
+async function getAvailableReleases(
+  githubToken: string,
+  source: ReleaseSource,
+  cacheConfig: CacheConfig,
+): Promise<ReleaseInfo[]> {
+  return await getCachedReleaseList(cacheConfig, source, () =>
+    withAnonymousFallback(githubToken, source, (octokit) =>
+      listReleaseInfo(octokit, source),
+    ),
+  );
 }
 
-async function getLatestVersion(githubToken: string) {
-  const octokit = new PaginatingOctokit({
-    auth: githubToken,
-  });
-
-  let latestRelease: { tag_name: string } | undefined;
+/**
+ * Run API requests with the token, repeating them anonymously if the token
+ * is rejected. Requests to other APIs than the workflow's are anonymous
+ */
+async function withAnonymousFallback<T>(
+  githubToken: string,
+  source: ReleaseSource,
+  request: (octokit: GitHubClientInstance) => Promise<T>,
+): Promise<T> {
+  const token = getApiToken(source, githubToken);
+  if (!token) {
+    return await request(createGitHubClient(undefined, source.apiUrl));
+  }
   try {
-    latestRelease = await getLatestRelease(octokit);
+    return await request(createGitHubClient(token, source.apiUrl));
   } catch (err) {
-    if ((err as Error).message.includes("Bad credentials")) {
-      core.info(
-        "No (valid) GitHub token provided. Falling back to anonymous. Requests might be rate limited.",
-      );
-      const octokit = new PaginatingOctokit();
-      try {
-        latestRelease = await getLatestRelease(octokit);
-      } catch (anonErr) {
-        // If latest release fails anonymously, try to get all releases
-        core.debug("Failed to get latest release, trying all releases...");
-        return await getLatestVersionFromAllReleases(octokit);
-      }
-    } else if ((err as Error).message.includes("Not Found")) {
-      // No "latest" release found, try to get all releases and use the most recent
-      core.debug("No latest release found, checking all releases...");
-      return await getLatestVersionFromAllReleases(octokit);
-    } else {
-      core.error(
-        "Github API request failed while getting latest release. Check the GitHub status page for outages. Try again later.",
-      );
+    if (!isGitHubApiError(err, "unauthorized")) {
       throw err;
     }
+    core.info(
+      "No (valid) GitHub token provided. Falling back to anonymous. Requests might be rate limited.",
+    );
+    return await request(createGitHubClient(undefined, source.apiUrl));
   }
+}
 
-  if (!latestRelease) {
-    throw new Error("Could not determine latest release.");
+/**
+ * List the asset names of a release
+ * @returns Asset names, or undefined if the release does not exist
+ */
+export async function getReleaseAssetNames(
+  version: string,
+  githubToken: string,
+  source: ReleaseSource = getDefaultReleaseSource(),
+): Promise<string[] | undefined> {
+  try {
+    const response = await withAnonymousFallback(
+      githubToken,
+      source,
+      (octokit) =>
+        octokit.rest.repos.getReleaseByTag({
+          owner: source.owner,
+          repo: source.repo,
+          tag: version,
+        }),
+    );
+    return response.data.assets.map((asset) => asset.name);
+  } catch (error) {
+    if (isGitHubApiError(error, "not-found")) {
+      return undefined;
+    }
+    throw error;
   }
-  return latestRelease.tag_name;
 }
 
-async function getLatestVersionFromAllReleases(
-  octokit: InstanceType<typeof PaginatingOctokit>,
+async function listReleaseInfo(
+  octokit: GitHubClientInstance,
+  source: ReleaseSource,
+): Promise<ReleaseInfo[]> {
+  const response = await octokit.paginate(octokit.rest.repos.listReleases, {
+    owner: source.owner,
+    repo: source.repo,
+  });
+  return response.map((release) => ({
+    commitish: release.target_commitish,
+    draft: release.draft,
+    prerelease: release.prerelease,
+    tag: release.tag_name,
+  }));
+}
+
+async function getLatestVersion(
+  githubToken: string,
+  source: ReleaseSource,
 ): Promise<string> {
-  try {
-    const releases = await getReleaseTagNames(octokit);
-    if (releases.length === 0) {
-      throw new Error(
-        `No releases found in ${OWNER}/${REPO}. Please create a release before using 'latest' version. Visit: https://github.com/${OWNER}/${REPO}/releases/new`,
-      );
-    }
-    // Return the first release (most recent)
-    core.info(`Using most recent release: ${releases[0]}`);
-    return releases[0];
-  } catch (err) {
-    if ((err as Error).message.includes("No releases found")) {
+  return await withAnonymousFallback(githubToken, source, async (octokit) => {
+    try {
+      const latestRelease = await getLatestRelease(octokit, source);
+      return latestRelease.tag_name;
+    } catch (err) {
+      if (isGitHubApiError(err, "not-found")) {
+        // No "latest" release found, try to get all releases and use the most recent
+        core.debug("No latest release found, checking all releases...");
+        return await getLatestVersionFromAllReleases(octokit, source);
+      }
+      if (!isGitHubApiError(err, "unauthorized")) {
+        core.error(
+          "Github API request failed while getting latest release. Check the GitHub status page for outages. Try again later.",
+        );
+      }
       throw err;
     }
+  });
+}
+
+async function getLatestVersionFromAllReleases(
+  octokit: GitHubClientInstance,
+  source: ReleaseSource,
+): Promise<string> {
+  const { owner, repo } = source;
+  const releases = (await listReleaseInfo(octokit, source)).map(
+    (release) => release.tag,
+  );
+  if (releases.length === 0) {
     throw new Error(
-      `Failed to fetch releases from ${OWNER}/${REPO}: ${(err as Error).message}`,
+      `No releases found in ${owner}/${repo}. Please create a release before using 'latest' version. Visit: https://github.com/${owner}/${repo}/releases/new`,
     );
   }
+  // Return the first release (most recent)
+  core.info(`Using most recent release: ${releases[0]}`);
+  return releases[0];
 }
 
 async function getLatestRelease(
-  octokit: InstanceType<typeof PaginatingOctokit>,
+  octokit: GitHubClientInstance,
+  source: ReleaseSource,
 ) {
   const { data: latestRelease } = await octokit.rest.repos.getLatestRelease({
-    owner: OWNER,
-    repo: REPO,
+    owner: source.owner,
+    repo: source.repo,
   });
   return latestRelease;
 }
@@ -0,0 +1,167 @@
+/**
+ * Release selection
+ *
+ * Picks a release from the metadata returned by `listReleases` for version
+ * inputs that GitHub's "latest" release cannot answer:
+ * - `prerelease`: the newest release, release candidates included
+ * - `nightly`: the most recent release tagged as a nightly build
+ * - a commit SHA: the release built from that commit, found by its tag
+ * - semver ranges, optionally matching prereleases
+ * Drafts are never selected
+ */
+
+import * as semver from "semver";
+
+/**
+ * Release metadata used for selection
+ */
+export interface ReleaseInfo {
+  /** Release tag */
+  tag: string;
+  /** Marked as a prerelease on GitHub */
+  prerelease: boolean;
+  /** Unpublished draft */
+  draft: boolean;
+  /** Branch or commit SHA the tag was created from */
+  commitish: string;
+}
+
+/**
+ * Release channels accepted as version input
+ */
+export type ReleaseChannel = "prerelease" | "nightly";
+
+/**
+ * Options for selecting a release
+ */
+export interface SelectReleaseOptions {
+  /** Let `latest` and ranges match prereleases */
+  includePrereleases: boolean;
+  /**
+   * Tag pattern of builds published per commit, with `{sha}` for the commit
+   * and `*` for any text, e.g. `nightly-{sha}`
+   */
+  commitTagPattern: string;
+}
+
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{7,40}$/i;
+const NIGHTLY_PATTERN = /nightly/i;
+
+/**
+ * Check if a version input names a release channel
+ */
+export function isReleaseChannel(
+  versionInput: string,
+): versionInput is ReleaseChannel {
+  return versionInput === "prerelease" || versionInput === "nightly";
+}
+
+/**
+ * Check if a version input is a commit SHA (7 to 40 hex characters)
+ */
+export function isCommitSha(versionInput: string): boolean {
+  return COMMIT_SHA_PATTERN.test(versionInput);
+}
+
+/**
+ * Select the release for a version input
+ * @param releases - Releases, most recent first
+ * @param versionInput - `latest`, a channel, a commit SHA or a semver range
+ * @returns Tag of the selected release, or undefined if none matches
+ */
+export function selectRelease(
+  releases: ReleaseInfo[],
+  versionInput: string,
+  options: SelectReleaseOptions,
+): string | undefined {
+  const published = releases.filter((release) => !release.draft);
+  if (versionInput === "prerelease") {
+    return selectNewest(published, "*", true) ?? published[0]?.tag;
+  }
+  if (versionInput === "nightly") {
+    return published.find((release) => NIGHTLY_PATTERN.test(release.tag))?.tag;
+  }
+  if (isCommitSha(versionInput)) {
+    return selectByCommit(published, versionInput, options.commitTagPattern);
+  }
+  const range = versionInput === "latest" ? "*" : versionInput;
+  return selectNewest(published, range, options.includePrereleases);
+}
+
+/**
+ * Select the highest release version satisfying a range
+ * Without `includePrereleases`, prerelease tags only match ranges naming a
+ * prerelease of the same version, and releases marked as prereleases on
+ * GitHub with a plain version tag never match
+ * @param includePrereleases - Let the range match prereleases of any version
+ */
+export function selectNewest(
+  releases: ReleaseInfo[],
+  range: string,
+  includePrereleases: boolean,
+): string | undefined {
+  const candidates = includePrereleases
+    ? releases
+    : releases.filter(
+        (release) =>
+          !release.prerelease || semver.prerelease(release.tag) !== null,
+      );
+  return (
+    semver.maxSatisfying(
+      candidates.map((release) => release.tag),
+      range,
+      { includePrerelease: includePrereleases },
+    ) ?? undefined
+  );
+}
+
+/**
+ * Select the most recent release built from a commit
+ * A release matches if its tag matches the pattern with a SHA that is a
+ * prefix of the given one or the other way around, or if it was created
+ * from that commit
+ * @param sha - Full or abbreviated commit SHA
+ * @param pattern - Tag pattern with `{sha}` and `*` placeholders
+ */
+export function selectByCommit(
+  releases: ReleaseInfo[],
+  sha: string,
+  pattern: string,
+): string | undefined {
+  const wanted = sha.toLowerCase();
+  const tagPattern = compileTagPattern(pattern, wanted);
+  return releases.find(
+    (release) =>
+      tagPattern.test(release.tag) ||
+      (isCommitSha(release.commitish) &&
+        (release.commitish.toLowerCase().startsWith(wanted) ||
+          wanted.startsWith(release.commitish.toLowerCase()))),
+  )?.tag;
+}
+
+/**
+ * Compile a tag pattern for one commit
+ * `{sha}` matches the SHA abbreviated to at least 7 characters, or extended
+ * to a longer SHA, but not as part of a longer run of hex characters
+ */
+function compileTagPattern(pattern: string, sha: string): RegExp {
+  const abbreviations: string[] = [`${sha}[0-9a-f]*`];
+  for (let length = sha.length - 1; length >= 7; length--) {
+    abbreviations.push(sha.substring(0, length));
+  }
+  const shaSource = `(?<![0-9a-f])(?:${abbreviations.join("|")})(?![0-9a-f])`;
+
+  const source = pattern
+    .split(/(\{sha\}|\*)/)
+    .map((part) => {
+      if (part === "{sha}") {
+        return shaSource;
+      }
+      if (part === "*") {
+        return ".*";
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
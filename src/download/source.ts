@@ -0,0 +1,130 @@
+/**
+ * Release source module
+ *
+ * Describes where spectr releases are looked up and downloaded from. By
+ * default that is the upstream repository on github.com, whatever GitHub
+ * instance the workflow runs on; mirrors and GitHub Enterprise Server are
+ * supported through a download URL template, an API base URL and an
+ * owner/repo override
+ */
+
+import {
+  DEFAULT_API_URL,
+  DEFAULT_DOWNLOAD_URL,
+  OWNER,
+  REPO,
+} from "../utils/constants";
+import { getWorkflowApiUrl } from "../utils/github-api";
+
+/**
+ * Location of spectr releases
+ */
+export interface ReleaseSource {
+  /** Owner of the repository releases are listed from */
+  owner: string;
+  /** Repository releases are listed from */
+  repo: string;
+  /** GitHub REST API base URL */
+  apiUrl: string;
+  /**
+   * Release asset URL template with `{owner}`, `{repo}`, `{version}` and
+   * `{asset}` placeholders
+   */
+  downloadUrl: string;
+}
+
+const PLACEHOLDER_PATTERN = /\{(owner|repo|version|asset)\}/g;
+
+/**
+ * The upstream release source on github.com
+ */
+export function getDefaultReleaseSource(): ReleaseSource {
+  return {
+    apiUrl: DEFAULT_API_URL,
+    downloadUrl: DEFAULT_DOWNLOAD_URL,
+    owner: OWNER,
+    repo: REPO,
+  };
+}
+
+/**
+ * Build the download URL of a release asset
+ * A template without an `{asset}` placeholder is a base URL that the
+ * version and asset are appended to, e.g. `https://mirror.example.com/spectr`
+ * gives `https://mirror.example.com/spectr/v0.1.0/spectr_Linux_x86_64.tar.gz`
+ * @param source - Release source
+ * @param version - Release tag
+ * @param asset - Release asset file name
+ */
+export function constructAssetUrl(
+  source: ReleaseSource,
+  version: string,
+  asset: string,
+): string {
+  const template = source.downloadUrl.includes("{asset}")
+    ? source.downloadUrl
+    : `${source.downloadUrl.replace(/\/+$/, "")}/{version}/{asset}`;
+  const values: Record<string, string> = {
+    asset,
+    owner: source.owner,
+    repo: source.repo,
+    version,
+  };
+  return template.replace(
+    PLACEHOLDER_PATTERN,
+    (_, name: string) => values[name],
+  );
+}
+
+/**
+ * Token to send with a download
+ * The GitHub token is only sent to the GitHub instance the workflow runs
+ * on, github.com when `GITHUB_SERVER_URL` is not set, never to other
+ * instances or third-party mirrors
+ * @returns The token, or undefined for other hosts
+ */
+export function getDownloadToken(
+  url: string,
+  githubToken: string,
+): string | undefined {
+  const trustedHost = process.env.GITHUB_SERVER_URL
+    ? new URL(process.env.GITHUB_SERVER_URL).host
+    : "github.com";
+  return new URL(url).host === trustedHost && githubToken
+    ? githubToken
+    : undefined;
+}
+
+/**
+ * Token to send with release API requests
+ * The GitHub token is only sent when the API is the one of the GitHub
+ * instance the workflow runs on
+ * @returns The token, or undefined for other APIs
+ */
+export function getApiToken(
+  source: ReleaseSource,
+  githubToken: string,
+): string | undefined {
+  const normalize = (url: string) => url.replace(/\/+$/, "");
+  return normalize(source.apiUrl) === normalize(getWorkflowApiUrl()) &&
+    githubToken
+    ? githubToken
+    : undefined;
+}
+
+/**
+ * Parse an `owner/repo` repository reference
+ * @throws Error if the reference is not of the form `owner/repo`
+ */
+export function parseRepository(repository: string): {
+  owner: string;
+  repo: string;
+} {
+  const match = repository.trim().match(/^([\w.-]+)\/([\w.-]+)$/);
+  if (!match) {
+    throw new Error(
+      `Invalid repository: ${repository}. Expected the form owner/repo`,
+    );
+  }
+  return { owner: match[1], repo: match[2] };
+}
@@ -0,0 +1,145 @@
+/**
+ * Pre-installed spectr binaries
+ *
+ * Self-hosted runners and Nix shells often provide spectr already. The
+ * action can use such a binary, from the `spectr-path` input or from PATH,
+ * instead of resolving and downloading a release; its `--version` must then
+ * satisfy the requested version
+ */
+
+import * as core from "@actions/core";
+import * as exec from "@actions/exec";
+import * as io from "@actions/io";
+import * as semver from "semver";
+
+/**
+ * Whether the action downloads spectr
+ * - always: resolve and download a release
+ * - prefer-system: use spectr from PATH when it satisfies the requested
+ *   version, otherwise download
+ * - never: use spectr from PATH and fail if it is missing or does not satisfy
+ *   the requested version
+ */
+export type InstallMode = "always" | "prefer-system" | "never";
+
+/**
+ * Configuration for locating spectr
+ */
+export interface InstallConfig {
+  /** How spectr is installed */
+  mode: InstallMode;
+  /** Path to a spectr binary to use instead; empty when not set */
+  spectrPath: string;
+}
+
+/**
+ * A located spectr binary
+ */
+export interface SystemSpectr {
+  /** Path to the executable */
+  path: string;
+  /** Version reported by `spectr --version`, with a `v` prefix */
+  version: string;
+}
+
+const VERSION_PATTERN =
+  /v?(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?)/;
+
+/**
+ * Version used when `spectr --version` prints no semver version
+ */
+export const UNKNOWN_VERSION = "unknown";
+
+/**
+ * Locate a pre-installed spectr binary
+ * @param config - Install configuration
+ * @param versionInput - Requested version: `latest`, a version or a range
+ * @returns The binary, or undefined if a release should be downloaded
+ * @throws Error if the configured binary is missing or does not satisfy the
+ * requested version and downloading is not allowed
+ */
+export async function findSystemSpectr(
+  config: InstallConfig,
+  versionInput: string,
+): Promise<SystemSpectr | undefined> {
+  if (!config.spectrPath && config.mode === "always") {
+    return undefined;
+  }
+
+  const required = Boolean(config.spectrPath) || config.mode === "never";
+  const spectrPath = await io.which(config.spectrPath || "spectr", false);
+  if (!spectrPath) {
+    if (config.spectrPath) {
+      throw new Error(`spectr-path does not exist: ${config.spectrPath}`);
+    }
+    if (required) {
+      throw new Error(
+        "spectr was not found on PATH. Install it before this step or set 'install: true'",
+      );
+    }
+    core.info("spectr was not found on PATH, downloading a release instead");
+    return undefined;
+  }
+
+  const version = await getSpectrVersion(spectrPath);
+  if (satisfiesVersionInput(version, versionInput)) {
+    return { path: spectrPath, version };
+  }
+
+  const message = `spectr at ${spectrPath} reports version ${version}, which does not satisfy the requested version ${versionInput}`;
+  if (required) {
+    throw new Error(message);
+  }
+  core.info(`${message}, downloading a release instead`);
+  return undefined;
+}
+
+/**
+ * Run `spectr --version` and parse the version it prints
+ * @returns Version with a `v` prefix, or `unknown` if none was printed
+ */
+export async function getSpectrVersion(spectrPath: string): Promise<string> {
+  const { stdout, stderr } = await exec.getExecOutput(
+    spectrPath,
+    ["--version"],
+    { silent: true },
+  );
+  const version = parseSpectrVersion(`${stdout}\n${stderr}`);
+  if (version === undefined) {
+    core.warning(
+      `Could not read the version of ${spectrPath} from 'spectr --version'`,
+    );
+    return UNKNOWN_VERSION;
+  }
+  return version;
+}
+
+/**
+ * Extract the version from `spectr --version` output
+ * Accepts output such as `spectr version v0.1.0` or `0.1.0 (abc1234)`
+ * @returns Version with a `v` prefix, or undefined if none was found
+ */
+export function parseSpectrVersion(output: string): string | undefined {
+  const match = output.match(VERSION_PATTERN);
+  return match ? `v${match[1]}` : undefined;
+}
+
+/**
+ * Check if an installed version satisfies the requested version
+ * `latest` accepts any version, since finding the latest release needs the
+ * network; an unknown version satisfies nothing else
+ * @param version - Installed version
+ * @param versionInput - Requested version: `latest`, a version or a range
+ */
+export function satisfiesVersionInput(
+  version: string,
+  versionInput: string,
+): boolean {
+  if (versionInput === "latest") {
+    return true;
+  }
+  if (version === UNKNOWN_VERSION) {
+    return false;
+  }
+  return semver.satisfies(version, versionInput);
+}
@@ -5,6 +5,7 @@
  */
 
 import * as core from "@actions/core";
+import type { GitHubClientInstance } from "../utils/github-api";
 import { discoverActiveChanges, discoverArchivedChanges } from "./discover";
 import { bodiesMatch, formatIssueBody, formatIssueTitle } from "./format";
 import {
@@ -57,7 +58,7 @@ export async function syncIssues(
   core.info("Starting issue sync...");
 
   // Setup GitHub API client and repo context
-  const octokit = createOctokitClient(config.githubToken);
+  const octokit = createOctokitClient(config.githubToken, config.apiUrl);
   const repo = getRepoContext();
 
   core.info(`Repository: ${repo.owner}/${repo.repo}`);
@@ -178,7 +179,7 @@ export async function syncIssues(
  * @returns "created", "updated", or "skipped"
  */
 async function syncActiveChange(
-  octokit: ReturnType<typeof createOctokitClient>,
+  octokit: GitHubClientInstance,
   repo: { owner: string; repo: string },
   change: ChangeProposal,
   config: IssueSyncConfig,
@@ -4,21 +4,28 @@
  * Handles creating, updating, and closing issues via the GitHub API
  */
 
-import { Octokit } from "@octokit/core";
-import { paginateRest } from "@octokit/plugin-paginate-rest";
-import { restEndpointMethods } from "@octokit/plugin-rest-endpoint-methods";
+import type { GitHubClientInstance } from "../utils/github-api";
+import {
+  createGitHubClient,
+  getWorkflowApiUrl,
+  isGitHubApiError,
+} from "../utils/github-api";
 import type { IssueSyncConfig, ManagedIssue, RepoContext } from "./types";
 import { extractChangeIdFromBody } from "./types";
 
-// Create Octokit with plugins
-const ExtendedOctokit = Octokit.plugin(paginateRest, restEndpointMethods);
-type OctokitClient = InstanceType<typeof ExtendedOctokit>;
+type OctokitClient = GitHubClientInstance;
 
 /**
  * Create an authenticated Octokit client
+ * Requests are retried on transient failures and rate limits
+ * @param baseUrl - REST API base URL; defaults to the API of the GitHub
+ * instance the workflow runs on
  */
-export function createOctokitClient(token: string): OctokitClient {
-  return new ExtendedOctokit({ auth: token });
+export function createOctokitClient(
+  token: string,
+  baseUrl: string = getWorkflowApiUrl(),
+): OctokitClient {
+  return createGitHubClient(token, baseUrl);
 }
 
 /**
@@ -215,7 +222,7 @@ export async function ensureLabelsExist(
         });
       } catch (error) {
         // Label might have been created by another process, ignore 422 errors
-        if ((error as { status?: number }).status !== 422) {
+        if (!isGitHubApiError(error) || error.status !== 422) {
           throw error;
         }
       }
@@ -20,6 +20,8 @@ export interface IssueSyncConfig {
   spectrLabel: string;
   /** GitHub token for API access */
   githubToken: string;
+  /** REST API base URL of the GitHub instance the workflow runs on */
+  apiUrl: string;
 }
 
 /**
@@ -0,0 +1,207 @@
+/**
+ * Baseline module
+ *
+ * A baseline is a committed JSON file of known issues. Issues matching the
+ * baseline are suppressed so that only new issues fail validation. Issues
+ * are fingerprinted by file, level and message, so they still match when
+ * the surrounding lines move. Results spectr could not validate have no
+ * issues to match and are never baselined
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import type { ValidationLevel, ValidationOutput } from "../types/spectr";
+import { filterOutputIssues, toReportedIssue } from "./collect";
+import { writeReportFile } from "./files";
+import type { ReportedIssue } from "./types";
+
+/**
+ * Current baseline file format version
+ */
+export const BASELINE_VERSION = 1;
+
+/**
+ * How issues matching the baseline are reported
+ * - notice: annotated as notices, never failing
+ * - hide: left out entirely
+ */
+export type BaselineMatchMode = "notice" | "hide";
+
+/**
+ * Configuration for baseline suppression
+ */
+export interface BaselineConfig {
+  /** Baseline file path relative to the workspace; empty when disabled */
+  file: string;
+  /** How matching issues are reported */
+  matches: BaselineMatchMode;
+  /** Write a fresh baseline from the current issues instead of reading it */
+  write: boolean;
+}
+
+/**
+ * A known issue recorded in the baseline
+ * One entry per occurrence, so duplicates are matched by count
+ */
+export interface BaselineEntry {
+  fingerprint: string;
+  file: string;
+  level: ValidationLevel;
+  message: string;
+}
+
+/**
+ * Baseline file contents
+ */
+export interface Baseline {
+  version: number;
+  issues: BaselineEntry[];
+}
+
+/**
+ * Remaining occurrences per fingerprint, consumed as issues match
+ */
+export type BaselineIndex = Map<string, number>;
+
+/**
+ * Compute the fingerprint of an issue
+ * Hashes the file path, level and whitespace-normalized message; the line
+ * number is left out so the fingerprint survives line drift
+ */
+export function fingerprintIssue(
+  issue: Pick<ReportedIssue, "file" | "level" | "message">,
+): string {
+  const file = issue.file.replace(/\\/g, "/").replace(/^\.\//, "");
+  const message = issue.message.trim().replace(/\s+/g, " ");
+  return createHash("sha256")
+    .update(`${file}\u0000${issue.level}\u0000${message}`)
+    .digest("hex");
+}
+
+/**
+ * Create a baseline from the current issues
+ * Entries are sorted so regenerated baselines diff cleanly
+ */
+export function createBaseline(issues: ReportedIssue[]): Baseline {
+  const entries = issues.map((issue) => ({
+    file: issue.file,
+    fingerprint: fingerprintIssue(issue),
+    level: issue.level,
+    message: issue.message,
+  }));
+  entries.sort(
+    (a, b) =>
+      a.file.localeCompare(b.file) ||
+      a.level.localeCompare(b.level) ||
+      a.message.localeCompare(b.message),
+  );
+  return { issues: entries, version: BASELINE_VERSION };
+}
+
+/**
+ * Read and check a baseline file
+ * @throws Error if the file is missing or not a valid baseline
+ */
+export function readBaselineFile(filePath: string): Baseline {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(
+      `Baseline file not found: ${filePath}. Set 'write-baseline: true' to create it`,
+    );
+  }
+
+  let baseline: Partial<Baseline>;
+  try {
+    baseline = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid baseline file ${filePath}: ${(error as Error).message}`,
+    );
+  }
+
+  if (baseline.version !== BASELINE_VERSION) {
+    throw new Error(
+      `Unsupported baseline version in ${filePath}: ${baseline.version}. Expected ${BASELINE_VERSION}`,
+    );
+  }
+  if (
+    !Array.isArray(baseline.issues) ||
+    !baseline.issues.every((entry) => typeof entry?.fingerprint === "string")
+  ) {
+    throw new Error(
+      `Invalid baseline file ${filePath}: every issue needs a fingerprint`,
+    );
+  }
+  return baseline as Baseline;
+}
+
+/**
+ * Write a baseline file, creating parent directories as needed
+ * @returns Absolute path of the written file
+ */
+export async function writeBaselineFile(
+  filePath: string,
+  baseline: Baseline,
+): Promise<string> {
+  return writeReportFile(filePath, `${JSON.stringify(baseline, null, 2)}\n`);
+}
+
+/**
+ * Count the occurrences of each fingerprint in a baseline
+ */
+export function indexBaseline(baseline: Baseline): BaselineIndex {
+  const index: BaselineIndex = new Map();
+  for (const entry of baseline.issues) {
+    index.set(entry.fingerprint, (index.get(entry.fingerprint) ?? 0) + 1);
+  }
+  return index;
+}
+
+/**
+ * Remove issues matching the baseline from validation output
+ * Each baseline entry matches at most one issue; matches are consumed from
+ * the index so it can be shared across projects
+ * @param validationOutput - Parsed spectr output for one project
+ * @param index - Remaining baseline occurrences, updated in place
+ * @param projectName - Project path relative to the workspace
+ * @param projectPath - Absolute path to the project root
+ * @param workspacePath - Root issue file paths are relative to
+ * @returns Output without matched issues, and the matched issues
+ */
+export function applyBaseline(
+  validationOutput: ValidationOutput,
+  index: BaselineIndex,
+  projectName: string,
+  projectPath: string,
+  workspacePath: string,
+): { output: ValidationOutput; matched: ReportedIssue[] } {
+  const matched: ReportedIssue[] = [];
+  const output = filterOutputIssues(validationOutput, (issue, result) => {
+    const reported = toReportedIssue(
+      issue,
+      result,
+      projectName,
+      projectPath,
+      workspacePath,
+    );
+    const fingerprint = fingerprintIssue(reported);
+    const remaining = index.get(fingerprint) ?? 0;
+    if (remaining === 0) {
+      return true;
+    }
+    index.set(fingerprint, remaining - 1);
+    matched.push(reported);
+    return false;
+  });
+  return { matched, output };
+}
+
+/**
+ * Count baseline entries that matched no issue
+ */
+export function countUnmatched(index: BaselineIndex): number {
+  let count = 0;
+  for (const remaining of index.values()) {
+    count += remaining;
+  }
+  return count;
+}
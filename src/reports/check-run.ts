@@ -0,0 +1,187 @@
+/**
+ * Check run module
+ *
+ * Publishes validation issues as a GitHub Check Run. Workflow command
+ * annotations are capped at 10 per level per step; the Checks API accepts
+ * any number of annotations in batches of 50
+ */
+
+import type { RepoContext } from "../issues/types";
+import type { FailOnLevel, ValidationLevel } from "../types/spectr";
+import { readEventPayload } from "../utils/event";
+import type { GitHubClientInstance } from "../utils/github-api";
+import type { ReportedIssue } from "./types";
+
+/**
+ * Maximum annotations accepted per Checks API request
+ */
+export const MAX_ANNOTATIONS_PER_REQUEST = 50;
+
+/**
+ * Check run annotation as accepted by the Checks API
+ */
+export interface CheckRunAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: "failure" | "warning" | "notice";
+  /** Only allowed on single-line annotations */
+  start_column?: number;
+  end_column?: number;
+  message: string;
+  title: string;
+}
+
+/**
+ * Check run configuration
+ */
+export interface CheckRunConfig {
+  /** Publish a check run with all annotations */
+  enabled: boolean;
+  /** Check run name shown in the PR checks list */
+  name: string;
+}
+
+/**
+ * Options for publishing a check run
+ */
+export interface CheckRunOptions {
+  /** Check run name shown in the PR checks list */
+  name: string;
+  /** Commit the check run is attached to */
+  headSha: string;
+  /** Whether validation passed under the failure policy */
+  passed: boolean;
+  /** Markdown summary shown on the check run page */
+  summary: string;
+  /** Prefix annotation titles with the project name */
+  showProjectName: boolean;
+}
+
+/**
+ * Create a check run and upload all issues as annotations
+ * @returns ID of the created check run
+ */
+export async function publishCheckRun(
+  octokit: GitHubClientInstance,
+  repo: RepoContext,
+  issues: ReportedIssue[],
+  options: CheckRunOptions,
+): Promise<number> {
+  const annotations = issues.map((issue) =>
+    toCheckRunAnnotation(issue, options.showProjectName),
+  );
+  const batches = chunk(annotations, MAX_ANNOTATIONS_PER_REQUEST);
+  const title = options.passed
+    ? "Spectr validation passed"
+    : "Spectr validation failed";
+
+  const { data: checkRun } = await octokit.rest.checks.create({
+    head_sha: options.headSha,
+    name: options.name,
+    output: { annotations: batches[0] ?? [], summary: options.summary, title },
+    owner: repo.owner,
+    repo: repo.repo,
+    status: "in_progress",
+  });
+
+  for (const batch of batches.slice(1)) {
+    await octokit.rest.checks.update({
+      check_run_id: checkRun.id,
+      output: { annotations: batch, summary: options.summary, title },
+      owner: repo.owner,
+      repo: repo.repo,
+    });
+  }
+
+  await octokit.rest.checks.update({
+    check_run_id: checkRun.id,
+    conclusion: options.passed ? "success" : "failure",
+    output: { summary: options.summary, title },
+    owner: repo.owner,
+    repo: repo.repo,
+    status: "completed",
+  });
+
+  return checkRun.id;
+}
+
+/**
+ * Format the Markdown summary shown on the check run page
+ */
+export function formatCheckRunSummary(
+  issues: ReportedIssue[],
+  itemsValidated: number,
+  failOn: FailOnLevel,
+): string {
+  const count = (level: ValidationLevel) =>
+    issues.filter((issue) => issue.level === level).length;
+  return [
+    `Validated ${itemsValidated} items (fail-on: \`${failOn}\`).`,
+    "",
+    "| Errors | Warnings | Info |",
+    "| --- | --- | --- |",
+    `| ${count("ERROR")} | ${count("WARNING")} | ${count("INFO")} |`,
+  ].join("\n");
+}
+
+/**
+ * Convert an issue into a check run annotation
+ */
+export function toCheckRunAnnotation(
+  issue: ReportedIssue,
+  showProjectName: boolean,
+): CheckRunAnnotation {
+  const line = issue.line || 1;
+  const itemTitle = `${issue.itemType}: ${issue.itemName}`;
+  const annotation: CheckRunAnnotation = {
+    annotation_level: toAnnotationLevel(issue.level),
+    end_line: issue.endLine ?? line,
+    message: issue.message,
+    path: issue.file,
+    start_line: line,
+    title: showProjectName ? `${issue.project} › ${itemTitle}` : itemTitle,
+  };
+  if (issue.column && annotation.end_line === line) {
+    annotation.start_column = issue.column;
+    annotation.end_column = issue.column;
+  }
+  return annotation;
+}
+
+/**
+ * Get the commit to attach the check run to
+ * Pull request events use the PR head rather than the merge commit
+ */
+export function getHeadSha(): string {
+  const headSha = readEventPayload().pull_request?.head?.sha;
+  if (headSha) {
+    return headSha;
+  }
+
+  const sha = process.env.GITHUB_SHA;
+  if (!sha) {
+    throw new Error("GITHUB_SHA environment variable is not set");
+  }
+  return sha;
+}
+
+function toAnnotationLevel(
+  level: ValidationLevel,
+): CheckRunAnnotation["annotation_level"] {
+  if (level === "ERROR") {
+    return "failure";
+  }
+  if (level === "WARNING") {
+    return "warning";
+  }
+  return "notice";
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -0,0 +1,131 @@
+/**
+ * Issue collection module
+ *
+ * Flattens spectr validation output into issues with workspace-relative
+ * locations, shared by annotations and report writers
+ */
+
+import type {
+  BulkResult,
+  ValidationIssue,
+  ValidationOutput,
+  ValidationSummary,
+} from "../types/spectr";
+import { hasReport } from "../types/spectr";
+import { resolveIssueFile, resolveIssueLocation } from "./location";
+import type { ReportedIssue } from "./types";
+
+/**
+ * Collect all issues from validation output
+ * Issue paths are resolved against the project root and made relative to
+ * the workspace so file links keep working
+ * @param validationOutput - Parsed spectr output for one project
+ * @param projectName - Project path relative to the workspace
+ * @param projectPath - Absolute path to the project root
+ * @param workspacePath - Root annotation paths are relative to
+ * @returns Issues in output order
+ */
+export function collectIssues(
+  validationOutput: ValidationOutput,
+  projectName: string,
+  projectPath: string,
+  workspacePath: string,
+): ReportedIssue[] {
+  const issues: ReportedIssue[] = [];
+
+  for (const result of validationOutput) {
+    if (!hasReport(result)) {
+      continue;
+    }
+    for (const issue of result.report.issues) {
+      issues.push(
+        toReportedIssue(issue, result, projectName, projectPath, workspacePath),
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Resolve a single issue to a workspace-relative location
+ * @param issue - Issue as reported by spectr
+ * @param result - Result the issue was reported for
+ * @param projectName - Project path relative to the workspace
+ * @param projectPath - Absolute path to the project root
+ * @param workspacePath - Root the file path is made relative to
+ */
+export function toReportedIssue(
+  issue: ValidationIssue,
+  result: BulkResult,
+  projectName: string,
+  projectPath: string,
+  workspacePath: string,
+): ReportedIssue {
+  const location = resolveIssueLocation(issue, projectPath, workspacePath);
+  return {
+    ...issue,
+    column: location.startColumn,
+    endLine: location.endLine,
+    file: location.file,
+    itemName: result.name,
+    itemType: result.type,
+    line: location.startLine,
+    project: projectName,
+  };
+}
+
+/**
+ * Drop issues on files outside the given set
+ * Report summaries are recounted from the remaining issues
+ * @param validationOutput - Parsed spectr output for one project
+ * @param files - Workspace-relative paths to keep issues for
+ * @param projectPath - Absolute path to the project root
+ * @param workspacePath - Root the file paths are relative to
+ * @returns Filtered output; results spectr could not validate are kept as is
+ */
+export function filterOutputByFiles(
+  validationOutput: ValidationOutput,
+  files: Set<string>,
+  projectPath: string,
+  workspacePath: string,
+): ValidationOutput {
+  return filterOutputIssues(validationOutput, (issue) =>
+    files.has(resolveIssueFile(issue.path, projectPath, workspacePath)),
+  );
+}
+
+/**
+ * Keep the issues matching a predicate
+ * Report summaries are recounted from the remaining issues, and results
+ * left without errors become valid
+ * @param validationOutput - Parsed spectr output for one project
+ * @param keep - Called once per issue, in output order
+ * @returns Filtered output; results spectr could not validate are kept as is
+ */
+export function filterOutputIssues(
+  validationOutput: ValidationOutput,
+  keep: (issue: ValidationIssue, result: BulkResult) => boolean,
+): ValidationOutput {
+  return validationOutput.map((result) => {
+    if (!hasReport(result)) {
+      return result;
+    }
+    const issues = result.report.issues.filter((issue) => keep(issue, result));
+    const summary = countIssues(issues);
+    const valid = result.valid || summary.errors === 0;
+    return {
+      ...result,
+      report: { issues, summary, valid },
+      valid,
+    };
+  });
+}
+
+function countIssues(issues: ValidationIssue[]): ValidationSummary {
+  return {
+    errors: issues.filter((issue) => issue.level === "ERROR").length,
+    info: issues.filter((issue) => issue.level === "INFO").length,
+    warnings: issues.filter((issue) => issue.level === "WARNING").length,
+  };
+}
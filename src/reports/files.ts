@@ -0,0 +1,24 @@
+/**
+ * Report file module
+ *
+ * Writes generated reports to disk
+ */
+
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+
+/**
+ * Write a report file, creating parent directories as needed
+ * @param filePath - Destination path
+ * @param content - File content
+ * @returns Absolute path of the written file
+ */
+export async function writeReportFile(
+  filePath: string,
+  content: string,
+): Promise<string> {
+  const absolutePath = path.resolve(filePath);
+  await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+  await fs.writeFile(absolutePath, content);
+  return absolutePath;
+}
@@ -0,0 +1,155 @@
+/**
+ * JUnit report module
+ *
+ * Converts validation results into JUnit XML for test dashboards. Each
+ * change or spec becomes a test case, grouped into suites by type
+ */
+
+import type { FailOnLevel, ValidationType } from "../types/spectr";
+import { isFailingLevel } from "../types/spectr";
+import { writeReportFile } from "./files";
+import type { ProjectOutput, ReportedIssue } from "./types";
+
+const SUITE_NAMES: Record<ValidationType, string> = {
+  change: "changes",
+  spec: "specs",
+};
+
+interface TestCase {
+  name: string;
+  classname: string;
+  failures: ReportedIssue[];
+  output: ReportedIssue[];
+  error?: string;
+}
+
+/**
+ * Build a JUnit XML report
+ * Issues at or above the fail-on level become `<failure>`s, the rest go to
+ * `<system-out>`; results spectr could not validate become `<error>`s
+ * @param projectOutputs - Validation output per project
+ * @param issues - Issues with workspace-relative locations
+ * @param failOn - Minimum issue level that counts as a failure
+ * @returns JUnit XML document
+ */
+export function buildJUnitReport(
+  projectOutputs: ProjectOutput[],
+  issues: ReportedIssue[],
+  failOn: FailOnLevel,
+): string {
+  const suites = new Map<ValidationType, TestCase[]>([
+    ["change", []],
+    ["spec", []],
+  ]);
+  const isMultiProject = projectOutputs.length > 1;
+
+  for (const { project, output } of projectOutputs) {
+    for (const result of output) {
+      const resultIssues = issues.filter(
+        (issue) =>
+          issue.project === project &&
+          issue.itemType === result.type &&
+          issue.itemName === result.name,
+      );
+      suites.get(result.type)?.push({
+        classname: isMultiProject ? `${project}/${result.type}` : result.type,
+        error: result.error,
+        failures: resultIssues.filter((issue) =>
+          isFailingLevel(issue.level, failOn),
+        ),
+        name: result.name,
+        output: resultIssues.filter(
+          (issue) => !isFailingLevel(issue.level, failOn),
+        ),
+      });
+    }
+  }
+
+  const allCases = [...suites.values()].flat();
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="spectr" ${formatCounts(allCases)}>`,
+  ];
+  for (const [type, testCases] of suites) {
+    if (testCases.length === 0) {
+      continue;
+    }
+    lines.push(
+      `  <testsuite name="${SUITE_NAMES[type]}" ${formatCounts(testCases)}>`,
+    );
+    for (const testCase of testCases) {
+      lines.push(...formatTestCase(testCase));
+    }
+    lines.push("  </testsuite>");
+  }
+  lines.push("</testsuites>", "");
+  return lines.join("\n");
+}
+
+/**
+ * Write a JUnit report to disk, creating parent directories as needed
+ * @returns Absolute path of the written file
+ */
+export async function writeJUnitFile(
+  filePath: string,
+  report: string,
+): Promise<string> {
+  return writeReportFile(filePath, report);
+}
+
+function formatCounts(testCases: TestCase[]): string {
+  const failures = testCases.filter(
+    (testCase) => !testCase.error && testCase.failures.length > 0,
+  ).length;
+  const errors = testCases.filter((testCase) => testCase.error).length;
+  return `tests="${testCases.length}" failures="${failures}" errors="${errors}" skipped="0" time="0"`;
+}
+
+function formatTestCase(testCase: TestCase): string[] {
+  const open = `    <testcase name="${escapeXml(testCase.name)}" classname="${escapeXml(testCase.classname)}" time="0"`;
+  const children: string[] = [];
+
+  if (testCase.error) {
+    children.push(
+      `      <error message="${escapeXml(testCase.error)}" type="ValidationError"/>`,
+    );
+  } else if (testCase.failures.length > 0) {
+    const [first] = testCase.failures;
+    const message =
+      testCase.failures.length === 1
+        ? first.message
+        : `${first.message} (and ${testCase.failures.length - 1} more)`;
+    children.push(
+      `      <failure message="${escapeXml(message)}" type="${first.level}">${escapeXml(testCase.failures.map(formatIssueLine).join("\n"))}</failure>`,
+    );
+  }
+  if (testCase.output.length > 0) {
+    children.push(
+      `      <system-out>${escapeXml(testCase.output.map(formatIssueLine).join("\n"))}</system-out>`,
+    );
+  }
+
+  if (children.length === 0) {
+    return [`${open}/>`];
+  }
+  return [`${open}>`, ...children, "    </testcase>"];
+}
+
+function formatIssueLine(issue: ReportedIssue): string {
+  const location = issue.line ? `${issue.file}:${issue.line}` : issue.file;
+  return `[${issue.level}] ${location}: ${issue.message}`;
+}
+
+/**
+ * Escape text for XML attributes and content, dropping characters XML 1.0
+ * cannot represent
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,186 @@
+/**
+ * Issue location module
+ *
+ * Parses the `path` field of spectr issues into a workspace-relative file
+ * and line range. Besides plain paths spectr reports:
+ * - `file:line` and `file:line:column` positions
+ * - `file:start-end` line ranges
+ * - trailing context naming a requirement heading, e.g.
+ *   `spectr/specs/auth/spec.md: Requirement: Login` or `spec.md#login`
+ * Paths may use Windows or POSIX separators and be absolute
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ValidationIssue } from "../types/spectr";
+
+/**
+ * Position of an issue, as used by annotations
+ */
+export interface IssueLocation {
+  /** File path relative to the workspace, with forward slashes */
+  file: string;
+  /** First line of the issue (1-based) */
+  startLine?: number;
+  /** Last line of the issue, when it spans several lines */
+  endLine?: number;
+  /** Column of the issue on the first line (1-based) */
+  startColumn?: number;
+}
+
+/**
+ * Components of a raw issue path
+ */
+export interface ParsedIssuePath {
+  /** File path as reported, without position or context */
+  filePath: string;
+  line?: number;
+  endLine?: number;
+  column?: number;
+  /** Trailing context, e.g. the requirement heading */
+  context?: string;
+}
+
+const POSITION_PATTERN = /^(.+?):(\d+)(?:(?::(\d+))|(?:-(\d+)))?$/;
+const WINDOWS_ABSOLUTE_PATTERN = /^(?:[A-Za-z]:[\\/]|\\\\)/;
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Split a raw issue path into file, position and context
+ */
+export function parseIssuePath(issuePath: string): ParsedIssuePath {
+  let filePath = issuePath.trim();
+  let context: string | undefined;
+
+  // Context follows the first ": " (a drive letter colon is followed by a
+  // separator, never a space)
+  const contextMatch = filePath.match(/^(.*?):(?:\s+(.*)|$)/);
+  if (contextMatch) {
+    filePath = contextMatch[1];
+    context = contextMatch[2]?.trim() || undefined;
+  }
+
+  const anchorIndex = filePath.indexOf("#");
+  if (anchorIndex > 0) {
+    context ??= filePath.substring(anchorIndex + 1) || undefined;
+    filePath = filePath.substring(0, anchorIndex);
+  }
+
+  const positionMatch = filePath.match(POSITION_PATTERN);
+  if (!positionMatch) {
+    return { context, filePath };
+  }
+  const [, file, line, column, endLine] = positionMatch;
+  return {
+    column: column ? Number(column) : undefined,
+    context,
+    endLine: endLine ? Number(endLine) : undefined,
+    filePath: file,
+    line: Number(line),
+  };
+}
+
+/**
+ * Resolve an issue to a workspace-relative location
+ * Explicit `line`, `endLine` and `column` fields win over positions in the
+ * path. Without a line, a heading named by the path context is looked up in
+ * the file
+ * @param issue - Issue as reported by spectr
+ * @param projectPath - Absolute path to the project root
+ * @param workspacePath - Root the file path is made relative to
+ */
+export function resolveIssueLocation(
+  issue: ValidationIssue,
+  projectPath: string,
+  workspacePath: string,
+): IssueLocation {
+  const parsed = parseIssuePath(issue.path);
+  const file = resolveIssueFile(issue.path, projectPath, workspacePath);
+
+  let startLine = issue.line ?? parsed.line;
+  if (startLine === undefined && parsed.context) {
+    startLine = findHeadingLine(
+      getPathApi(workspacePath).resolve(workspacePath, file),
+      parsed.context,
+    );
+  }
+  const endLine = issue.endLine ?? parsed.endLine;
+  const spansLines =
+    startLine !== undefined && endLine !== undefined && endLine > startLine;
+  return {
+    endLine: spansLines ? endLine : undefined,
+    file,
+    startColumn: issue.column ?? parsed.column,
+    startLine,
+  };
+}
+
+/**
+ * Resolve an issue path to a workspace-relative file path
+ * Relative paths are resolved against the project root
+ * @returns Path with forward slashes
+ */
+export function resolveIssueFile(
+  issuePath: string,
+  projectPath: string,
+  workspacePath: string,
+): string {
+  const { filePath } = parseIssuePath(issuePath);
+  const pathApi = getPathApi(workspacePath);
+  // Backslashes are separators in spectr output, also on POSIX runners
+  const absolutePath = pathApi.resolve(
+    projectPath,
+    pathApi === path.win32 ? filePath : filePath.replace(/\\/g, "/"),
+  );
+  return pathApi
+    .relative(pathApi.resolve(workspacePath), absolutePath)
+    .replace(/\\/g, "/");
+}
+
+/**
+ * Find the line of a Markdown heading
+ * Matches headings whose text equals the given text, ignoring case, or ends
+ * with it (so `Login` finds `### Requirement: Login`)
+ * @returns 1-based line number, or undefined if the file or heading is missing
+ */
+export function findHeadingLine(
+  filePath: string,
+  heading: string,
+): number | undefined {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, "utf-8");
+  } catch {
+    return undefined;
+  }
+
+  const wanted = normalizeHeading(heading);
+  const lines = content.split(/\r?\n/);
+  let suffixMatch: number | undefined;
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(HEADING_PATTERN);
+    if (!match) {
+      continue;
+    }
+    const text = normalizeHeading(match[1]);
+    if (text === wanted) {
+      return i + 1;
+    }
+    if (suffixMatch === undefined && text.endsWith(`: ${wanted}`)) {
+      suffixMatch = i + 1;
+    }
+  }
+  return suffixMatch;
+}
+
+/**
+ * Use Windows path semantics for Windows workspaces, whatever the platform
+ * the action runs on
+ */
+function getPathApi(workspacePath: string): typeof path.posix {
+  return WINDOWS_ABSOLUTE_PATTERN.test(workspacePath) ? path.win32 : path;
+}
+
+function normalizeHeading(text: string): string {
+  return text.replace(/\s+/g, " ").trim().toLowerCase();
+}
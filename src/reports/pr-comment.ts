@@ -0,0 +1,247 @@
+/**
+ * Pull request comment module
+ *
+ * Maintains a single sticky comment on the pull request with the validation
+ * outcome. The comment is found through a hidden marker and carries the
+ * previous run's issues so each update can list what is new and resolved
+ */
+
+import type { RepoContext } from "../issues/types";
+import { MAX_ISSUE_BODY_LENGTH } from "../issues/types";
+import type { FailOnLevel, ValidationLevel } from "../types/spectr";
+import { readEventPayload } from "../utils/event";
+import type { GitHubClientInstance } from "../utils/github-api";
+import { getValidationTotals } from "./results";
+import { escapeHtml } from "./summary";
+import type { ProjectOutput, ReportedIssue } from "./types";
+
+/**
+ * Marker identifying the comment managed by the action
+ */
+export const PR_COMMENT_MARKER = "<!-- spectr-validation-report -->";
+
+/**
+ * Marker carrying the issues reported by the previous run
+ * Format: <!-- spectr-issues:BASE64_JSON -->
+ */
+export const ISSUES_STATE_PATTERN =
+  /<!--\s*spectr-issues:([A-Za-z0-9+/=]*)\s*-->/;
+
+/**
+ * Maximum issues listed per section before truncating
+ */
+export const MAX_LISTED_ISSUES = 50;
+
+/**
+ * Issue identity used to compare runs, independent of line numbers
+ */
+export interface CommentIssue {
+  file: string;
+  level: ValidationLevel;
+  message: string;
+}
+
+/**
+ * Issues that appeared or disappeared since the previous run
+ */
+export interface IssueDiff {
+  added: CommentIssue[];
+  resolved: CommentIssue[];
+}
+
+/**
+ * Pull request comment configuration
+ */
+export interface PrCommentConfig {
+  /** Maintain a sticky validation comment on pull requests */
+  enabled: boolean;
+}
+
+/**
+ * Everything shown in the pull request comment
+ */
+export interface PrCommentData {
+  /** Resolved spectr version */
+  spectrVersion: string;
+  /** Effective failure policy */
+  failOn: FailOnLevel;
+  /** Whether validation passed under the failure policy */
+  passed: boolean;
+  /** Validation output per project */
+  projectOutputs: ProjectOutput[];
+  /** Issues with workspace-relative locations */
+  issues: ReportedIssue[];
+}
+
+/**
+ * Create or update the sticky validation comment on a pull request
+ * @returns ID of the comment and whether it was newly created
+ */
+export async function upsertPrComment(
+  octokit: GitHubClientInstance,
+  repo: RepoContext,
+  pullNumber: number,
+  data: PrCommentData,
+): Promise<{ id: number; created: boolean }> {
+  const existing = await findPrComment(octokit, repo, pullNumber);
+  const previous = existing ? extractPreviousIssues(existing.body) : undefined;
+  const body = formatPrComment(data, previous);
+
+  if (existing) {
+    await octokit.rest.issues.updateComment({
+      body,
+      comment_id: existing.id,
+      owner: repo.owner,
+      repo: repo.repo,
+    });
+    return { created: false, id: existing.id };
+  }
+
+  const { data: comment } = await octokit.rest.issues.createComment({
+    body,
+    issue_number: pullNumber,
+    owner: repo.owner,
+    repo: repo.repo,
+  });
+  return { created: true, id: comment.id };
+}
+
+/**
+ * Find the comment managed by the action on a pull request
+ * Only comments by bots such as github-actions are matched, so a user
+ * quoting the marker never has their comment overwritten
+ */
+export async function findPrComment(
+  octokit: GitHubClientInstance,
+  repo: RepoContext,
+  pullNumber: number,
+): Promise<{ id: number; body: string } | undefined> {
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+    issue_number: pullNumber,
+    owner: repo.owner,
+    per_page: 100,
+    repo: repo.repo,
+  });
+  const comment = comments.find(
+    (c) => c.user?.type === "Bot" && c.body?.includes(PR_COMMENT_MARKER),
+  );
+  return comment ? { body: comment.body || "", id: comment.id } : undefined;
+}
+
+/**
+ * Get the pull request number of the current workflow run
+ * @returns PR number, or undefined outside of pull request events
+ */
+export function getPullRequestNumber(): number | undefined {
+  return readEventPayload().pull_request?.number;
+}
+
+/**
+ * Format the comment body
+ * @param previous - Issues from the previous run, if there was one
+ */
+export function formatPrComment(
+  data: PrCommentData,
+  previous?: CommentIssue[],
+): string {
+  const current = data.issues.map(toCommentIssue);
+  const totals = getValidationTotals(data.projectOutputs);
+
+  const parts = [
+    PR_COMMENT_MARKER,
+    `## ${data.passed ? "✅" : "❌"} Spectr validation ${data.passed ? "passed" : "failed"}`,
+    "",
+    `Spectr \`${data.spectrVersion}\` validated ${totals.itemsValidated} items (fail-on: \`${data.failOn}\`): ${totals.errors} errors, ${totals.warnings} warnings, ${totals.info} info.`,
+  ];
+
+  if (previous) {
+    const { added, resolved } = diffIssues(previous, current);
+    if (added.length === 0 && resolved.length === 0) {
+      parts.push("", "No changes since the previous run.");
+    }
+    parts.push(...formatSection("New issues", added, false));
+    parts.push(...formatSection("Resolved issues", resolved, true));
+  } else {
+    parts.push(...formatSection("Issues", current, false));
+  }
+
+  const body = parts.join("\n");
+  const state = `\n\n${encodeIssues(current)}`;
+  // Without the state the next run lists every issue as new, which beats
+  // failing to post the comment at all
+  return body.length + state.length <= MAX_ISSUE_BODY_LENGTH
+    ? `${body}${state}`
+    : body;
+}
+
+/**
+ * Compare the issues of two runs
+ * Issues are matched by file, level and message so that line drift does not
+ * show up as a change
+ */
+export function diffIssues(
+  previous: CommentIssue[],
+  current: CommentIssue[],
+): IssueDiff {
+  const previousKeys = new Set(previous.map(issueKey));
+  const currentKeys = new Set(current.map(issueKey));
+  return {
+    added: current.filter((issue) => !previousKeys.has(issueKey(issue))),
+    resolved: previous.filter((issue) => !currentKeys.has(issueKey(issue))),
+  };
+}
+
+/**
+ * Extract the previous run's issues from a comment body
+ * @returns Issues, or undefined if the body carries no (valid) state
+ */
+export function extractPreviousIssues(
+  body: string,
+): CommentIssue[] | undefined {
+  const match = body.match(ISSUES_STATE_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  try {
+    const issues = JSON.parse(
+      Buffer.from(match[1], "base64").toString("utf-8"),
+    );
+    return Array.isArray(issues) ? (issues as CommentIssue[]) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Encode issues into the hidden state marker
+ */
+export function encodeIssues(issues: CommentIssue[]): string {
+  const json = JSON.stringify(issues.map(toCommentIssue));
+  return `<!-- spectr-issues:${Buffer.from(json, "utf-8").toString("base64")} -->`;
+}
+
+function formatSection(
+  heading: string,
+  issues: CommentIssue[],
+  strikethrough: boolean,
+): string[] {
+  if (issues.length === 0) {
+    return [];
+  }
+  const lines = issues.slice(0, MAX_LISTED_ISSUES).map((issue) => {
+    const item = `**${issue.level}** \`${issue.file}\`: ${escapeHtml(issue.message)}`;
+    return `- ${strikethrough ? `~~${item}~~` : item}`;
+  });
+  if (issues.length > MAX_LISTED_ISSUES) {
+    lines.push(`- …and ${issues.length - MAX_LISTED_ISSUES} more`);
+  }
+  return ["", `### ${heading} (${issues.length})`, "", ...lines];
+}
+
+function toCommentIssue(issue: CommentIssue): CommentIssue {
+  return { file: issue.file, level: issue.level, message: issue.message };
+}
+
+function issueKey(issue: CommentIssue): string {
+  return `${issue.level}\u0000${issue.file}\u0000${issue.message}`;
+}
@@ -0,0 +1,61 @@
+/**
+ * Results module
+ *
+ * Totals and raw results exposed as action outputs so downstream steps can
+ * branch on validation without re-running spectr
+ */
+
+import * as os from "node:os";
+import * as path from "node:path";
+import type { ValidationOutput } from "../types/spectr";
+import {
+  getFailedResults,
+  getTotalErrorCount,
+  getTotalInfoCount,
+  getTotalWarningCount,
+} from "../types/spectr";
+import { writeReportFile } from "./files";
+import type { ProjectOutput } from "./types";
+
+/**
+ * Validation totals across all projects
+ */
+export interface ValidationTotals {
+  errors: number;
+  warnings: number;
+  info: number;
+  itemsValidated: number;
+  itemsFailed: number;
+}
+
+/**
+ * Sum validation totals across projects
+ */
+export function getValidationTotals(
+  projectOutputs: ProjectOutput[],
+): ValidationTotals {
+  const sum = (count: (output: ValidationOutput) => number) =>
+    projectOutputs.reduce((total, { output }) => total + count(output), 0);
+  return {
+    errors: sum(getTotalErrorCount),
+    info: sum(getTotalInfoCount),
+    itemsFailed: sum((output) => getFailedResults(output).length),
+    itemsValidated: sum((output) => output.length),
+    warnings: sum(getTotalWarningCount),
+  };
+}
+
+/**
+ * Write the raw spectr output to the runner's temp directory
+ * Results of several projects are concatenated in project order
+ * @returns Absolute path of the written file
+ */
+export async function writeResultsFile(
+  outputs: ValidationOutput[],
+): Promise<string> {
+  const tempDir = process.env.RUNNER_TEMP || os.tmpdir();
+  return writeReportFile(
+    path.join(tempDir, `spectr-results-${Date.now()}.json`),
+    `${JSON.stringify(outputs.flat(), null, 2)}\n`,
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * SARIF report module
+ *
+ * Converts validation issues into a SARIF 2.1.0 log for GitHub code scanning
+ */
+
+import type { ValidationLevel } from "../types/spectr";
+import { OWNER, REPO } from "../utils/constants";
+import { writeReportFile } from "./files";
+import type { ReportedIssue } from "./types";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const SARIF_VERSION = "2.1.0";
+const DEFAULT_RULE_ID = "spectr-validation";
+const MAX_RULE_ID_LENGTH = 64;
+
+/**
+ * SARIF result level
+ */
+export type SarifLevel = "error" | "warning" | "note";
+
+/**
+ * Reporting descriptor for a validation rule
+ */
+export interface SarifRule {
+  id: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+}
+
+/**
+ * Region of a file a result applies to
+ */
+export interface SarifRegion {
+  startLine: number;
+  endLine?: number;
+  startColumn?: number;
+}
+
+/**
+ * A single SARIF result
+ */
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region: SarifRegion;
+    };
+  }>;
+  properties: { project: string; item: string; itemType: string };
+}
+
+/**
+ * Minimal SARIF 2.1.0 log produced by the action
+ */
+export interface SarifLog {
+  $schema: string;
+  version: string;
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        informationUri: string;
+        version?: string;
+        rules: SarifRule[];
+      };
+    };
+    results: SarifResult[];
+  }>;
+}
+
+/**
+ * Build a SARIF log from validation issues
+ * @param issues - Issues with workspace-relative locations
+ * @param spectrVersion - Version of spectr that produced the issues
+ * @returns SARIF log with one run
+ */
+export function buildSarifLog(
+  issues: ReportedIssue[],
+  spectrVersion?: string,
+): SarifLog {
+  const rules: SarifRule[] = [];
+  const ruleIndexes = new Map<string, number>();
+  const results: SarifResult[] = [];
+
+  for (const issue of issues) {
+    const ruleId = deriveRuleId(issue.message);
+    const level = toSarifLevel(issue.level);
+
+    let ruleIndex = ruleIndexes.get(ruleId);
+    if (ruleIndex === undefined) {
+      ruleIndex = rules.length;
+      ruleIndexes.set(ruleId, ruleIndex);
+      rules.push({
+        defaultConfiguration: { level },
+        id: ruleId,
+        shortDescription: { text: toMessageTemplate(issue.message) },
+      });
+    }
+
+    results.push({
+      level,
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: issue.file, uriBaseId: "%SRCROOT%" },
+            region: toRegion(issue),
+          },
+        },
+      ],
+      message: { text: issue.message },
+      properties: {
+        item: issue.itemName,
+        itemType: issue.itemType,
+        project: issue.project,
+      },
+      ruleId,
+      ruleIndex,
+    });
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    runs: [
+      {
+        results,
+        tool: {
+          driver: {
+            informationUri: `https://github.com/${OWNER}/${REPO}`,
+            name: REPO,
+            rules,
+            version: spectrVersion?.replace(/^v/, ""),
+          },
+        },
+      },
+    ],
+    version: SARIF_VERSION,
+  };
+}
+
+/**
+ * Write a SARIF log to disk, creating parent directories as needed
+ * @returns Absolute path of the written file
+ */
+export async function writeSarifFile(
+  filePath: string,
+  log: SarifLog,
+): Promise<string> {
+  return writeReportFile(filePath, `${JSON.stringify(log, null, 2)}\n`);
+}
+
+function toRegion(issue: ReportedIssue): SarifRegion {
+  const region: SarifRegion = { startLine: issue.line || 1 };
+  if (issue.endLine) {
+    region.endLine = issue.endLine;
+  }
+  if (issue.column) {
+    region.startColumn = issue.column;
+  }
+  return region;
+}
+
+/**
+ * Map a spectr issue level to a SARIF result level
+ */
+export function toSarifLevel(level: ValidationLevel): SarifLevel {
+  if (level === "ERROR") {
+    return "error";
+  }
+  if (level === "WARNING") {
+    return "warning";
+  }
+  return "note";
+}
+
+/**
+ * Derive a stable rule ID from an issue message by dropping the parts that
+ * name specific items (quoted text and numbers)
+ * e.g. `Requirement 'Login' has no scenarios` -> `requirement-has-no-scenarios`
+ */
+export function deriveRuleId(message: string): string {
+  const slug = toMessageTemplate(message)
+    .toLowerCase()
+    .replace(/[^a-z]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .substring(0, MAX_RULE_ID_LENGTH)
+    .replace(/-+$/, "");
+  return slug || DEFAULT_RULE_ID;
+}
+
+/**
+ * Strip item-specific details from a message
+ */
+function toMessageTemplate(message: string): string {
+  return message
+    .replace(/(?<!\w)'[^']*'(?!\w)|"[^"]*"|`[^`]*`/g, "")
+    .replace(/\d+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
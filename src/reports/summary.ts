@@ -0,0 +1,171 @@
+/**
+ * Job summary module
+ *
+ * Renders validation results to the workflow run's job summary
+ * ($GITHUB_STEP_SUMMARY) using core.summary
+ */
+
+import * as core from "@actions/core";
+import type { SyncResult } from "../issues/types";
+import type { FailOnLevel } from "../types/spectr";
+import type { ProjectOutput, ReportedIssue } from "./types";
+
+/**
+ * Maximum issues listed in the job summary before truncating
+ * The step summary is limited to 1 MiB per step
+ */
+export const MAX_LISTED_ISSUES = 200;
+
+/**
+ * Job summary configuration
+ */
+export interface JobSummaryConfig {
+  /** Write the validation report to the job summary */
+  enabled: boolean;
+}
+
+/**
+ * Everything shown in the job summary
+ */
+export interface JobSummaryData {
+  /** Resolved spectr version */
+  spectrVersion: string;
+  /** Effective failure policy */
+  failOn: FailOnLevel;
+  /** Whether validation passed under the failure policy */
+  passed: boolean;
+  /** Validation output per project */
+  projectOutputs: ProjectOutput[];
+  /** Issues with workspace-relative locations */
+  issues: ReportedIssue[];
+  /** Issue sync counts, when issue sync ran */
+  syncResult?: SyncResult;
+}
+
+/**
+ * Add the validation report to the job summary buffer
+ * Call `core.summary.write()` to flush it
+ */
+export function addJobSummary(data: JobSummaryData): void {
+  const isMultiProject = data.projectOutputs.length > 1;
+  const itemCount = data.projectOutputs.reduce(
+    (sum, { output }) => sum + output.length,
+    0,
+  );
+
+  core.summary
+    .addHeading(
+      `${data.passed ? "✅" : "❌"} Spectr validation ${data.passed ? "passed" : "failed"}`,
+      2,
+    )
+    .addRaw(
+      `Spectr <code>${escapeHtml(data.spectrVersion)}</code> validated ${itemCount} items (fail-on: <code>${data.failOn}</code>).`,
+      true,
+    );
+
+  if (itemCount > 0) {
+    core.summary.addTable([
+      [
+        ...(isMultiProject ? [{ data: "Project", header: true }] : []),
+        { data: "Name", header: true },
+        { data: "Type", header: true },
+        { data: "Errors", header: true },
+        { data: "Warnings", header: true },
+        { data: "Info", header: true },
+      ],
+      ...data.projectOutputs.flatMap(({ project, output }) =>
+        output.map((result) => [
+          ...(isMultiProject ? [escapeHtml(project)] : []),
+          `${result.valid ? "✅" : "❌"} ${escapeHtml(result.name)}`,
+          result.type,
+          result.error
+            ? `⚠️ ${escapeHtml(result.error)}`
+            : String(result.report?.summary.errors ?? 0),
+          String(result.report?.summary.warnings ?? 0),
+          String(result.report?.summary.info ?? 0),
+        ]),
+      ),
+    ]);
+  }
+
+  if (data.issues.length > 0) {
+    core.summary.addHeading("Issues by file", 3);
+    let remaining = MAX_LISTED_ISSUES;
+    for (const [file, fileIssues] of groupByFile(data.issues)) {
+      if (remaining === 0) {
+        break;
+      }
+      const listed = fileIssues.slice(0, remaining);
+      remaining -= listed.length;
+      core.summary.addDetails(
+        `${escapeHtml(file)} (${fileIssues.length} ${fileIssues.length === 1 ? "issue" : "issues"})`,
+        `<ul>${listed.map((issue) => `<li>${formatIssueItem(issue)}</li>`).join("")}</ul>`,
+      );
+    }
+    if (data.issues.length > MAX_LISTED_ISSUES) {
+      core.summary.addRaw(
+        `<p>…and ${data.issues.length - MAX_LISTED_ISSUES} more</p>`,
+        true,
+      );
+    }
+  }
+
+  if (data.syncResult) {
+    const { created, updated, closed, totalChanges, errors } = data.syncResult;
+    core.summary
+      .addHeading("Issue sync", 3)
+      .addList([
+        `Created: ${created}`,
+        `Updated: ${updated}`,
+        `Closed: ${closed}`,
+        `Active changes: ${totalChanges}`,
+        ...(errors.length > 0 ? [`Errors: ${errors.length}`] : []),
+      ]);
+  }
+}
+
+/**
+ * Build a link to a file at the commit being validated
+ * @returns Blob URL, or undefined outside of GitHub Actions
+ */
+export function getBlobUrl(file: string, line?: number): string | undefined {
+  const repository = process.env.GITHUB_REPOSITORY;
+  const sha = process.env.GITHUB_SHA;
+  if (!repository || !sha) {
+    return undefined;
+  }
+  const serverUrl = process.env.GITHUB_SERVER_URL || "https://github.com";
+  const encodedPath = file.split("/").map(encodeURIComponent).join("/");
+  return `${serverUrl}/${repository}/blob/${sha}/${encodedPath}${line ? `#L${line}` : ""}`;
+}
+
+function formatIssueItem(issue: ReportedIssue): string {
+  const location = issue.line ? `line ${issue.line}` : "file";
+  const url = getBlobUrl(issue.file, issue.line);
+  const locationHtml = url ? `<a href="${url}">${location}</a>` : location;
+  return `<strong>${issue.level}</strong> (${locationHtml}, ${issue.itemType} ${escapeHtml(issue.itemName)}): ${escapeHtml(issue.message)}`;
+}
+
+function groupByFile(issues: ReportedIssue[]): Map<string, ReportedIssue[]> {
+  const groups = new Map<string, ReportedIssue[]>();
+  for (const issue of issues) {
+    const group = groups.get(issue.file);
+    if (group) {
+      group.push(issue);
+    } else {
+      groups.set(issue.file, [issue]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Escape text for use in HTML and GitHub-flavored Markdown
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
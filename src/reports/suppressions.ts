@@ -0,0 +1,196 @@
+/**
+ * Inline suppression module
+ *
+ * Authors silence a finding where it occurs with a comment on or directly
+ * above the offending line:
+ *
+ *   <!-- spectr-ignore: message substring -->
+ *
+ * A suppression without a substring silences every issue on that line
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ValidationOutput } from "../types/spectr";
+import { collectIssues, filterOutputIssues, toReportedIssue } from "./collect";
+import type { ReportedIssue } from "./types";
+
+/**
+ * Suppression comment format
+ * Format: <!-- spectr-ignore: SUBSTRING -->
+ */
+export const SUPPRESSION_PATTERN = /<!--\s*spectr-ignore(?::\s*(.*?))?\s*-->/g;
+
+const SPECTR_DIR = "spectr";
+const ARCHIVE_DIR = path.join("changes", "archive");
+const SUPPRESSIBLE_FILES = new Set(["spec.md", "proposal.md"]);
+
+/**
+ * An inline suppression comment
+ */
+export interface Suppression {
+  /** File path relative to the workspace, with forward slashes */
+  file: string;
+  /** Line of the comment (1-based) */
+  line: number;
+  /** Message substring to match; empty matches every message */
+  pattern: string;
+  /** Whether the suppression matched an issue */
+  used: boolean;
+}
+
+/**
+ * Parse the suppression comments in a file
+ * @param content - File content
+ * @param file - Workspace-relative path of the file
+ */
+export function parseSuppressions(
+  content: string,
+  file: string,
+): Suppression[] {
+  const suppressions: Suppression[] = [];
+  const lines = content.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    for (const match of lines[i].matchAll(SUPPRESSION_PATTERN)) {
+      suppressions.push({
+        file,
+        line: i + 1,
+        pattern: match[1]?.trim() ?? "",
+        used: false,
+      });
+    }
+  }
+  return suppressions;
+}
+
+/**
+ * Check if a suppression applies to an issue
+ * It must be in the same file, on the issue's line or the line above, and
+ * its pattern must occur in the message. Issues without a line match
+ * suppressions anywhere in the file
+ */
+export function matchesSuppression(
+  suppression: Suppression,
+  issue: Pick<ReportedIssue, "file" | "line" | "message">,
+): boolean {
+  if (suppression.file !== issue.file) {
+    return false;
+  }
+  if (
+    issue.line &&
+    suppression.line !== issue.line &&
+    suppression.line !== issue.line - 1
+  ) {
+    return false;
+  }
+  return issue.message.includes(suppression.pattern);
+}
+
+/**
+ * Apply inline suppressions to validation output
+ * Reads every file an issue points at, plus the project's spec.md and
+ * proposal.md files so that suppressions left behind after a fix are found
+ * @param validationOutput - Parsed spectr output for one project
+ * @param projectName - Project path relative to the workspace
+ * @param projectPath - Absolute path to the project root
+ * @param workspacePath - Root issue file paths are relative to
+ * @returns Output without suppressed issues, the suppressed issues, and
+ * suppressions that matched nothing
+ */
+export function applySuppressions(
+  validationOutput: ValidationOutput,
+  projectName: string,
+  projectPath: string,
+  workspacePath: string,
+): {
+  output: ValidationOutput;
+  suppressed: ReportedIssue[];
+  unused: Suppression[];
+} {
+  const files = new Set([
+    ...collectIssues(
+      validationOutput,
+      projectName,
+      projectPath,
+      workspacePath,
+    ).map((issue) => issue.file),
+    ...findSuppressibleFiles(projectPath, workspacePath),
+  ]);
+  const suppressions = [...files].flatMap((file) =>
+    readSuppressions(file, workspacePath),
+  );
+
+  const suppressed: ReportedIssue[] = [];
+  const output = filterOutputIssues(validationOutput, (issue, result) => {
+    const reported = toReportedIssue(
+      issue,
+      result,
+      projectName,
+      projectPath,
+      workspacePath,
+    );
+    const matching = suppressions.filter((suppression) =>
+      matchesSuppression(suppression, reported),
+    );
+    if (matching.length === 0) {
+      return true;
+    }
+    for (const suppression of matching) {
+      suppression.used = true;
+    }
+    suppressed.push(reported);
+    return false;
+  });
+
+  return {
+    output,
+    suppressed,
+    unused: suppressions.filter((suppression) => !suppression.used),
+  };
+}
+
+/**
+ * Find the spec.md and proposal.md files of a project, skipping archived
+ * changes
+ * @returns Workspace-relative paths with forward slashes
+ */
+export function findSuppressibleFiles(
+  projectPath: string,
+  workspacePath: string,
+): string[] {
+  const spectrPath = path.join(projectPath, SPECTR_DIR);
+  if (!fs.existsSync(spectrPath)) {
+    return [];
+  }
+
+  const files: string[] = [];
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (path.relative(spectrPath, entryPath) !== ARCHIVE_DIR) {
+          walk(entryPath);
+        }
+      } else if (SUPPRESSIBLE_FILES.has(entry.name)) {
+        files.push(
+          path
+            .relative(path.resolve(workspacePath), entryPath)
+            .split(path.sep)
+            .join("/"),
+        );
+      }
+    }
+  };
+  walk(spectrPath);
+  return files;
+}
+
+function readSuppressions(file: string, workspacePath: string): Suppression[] {
+  try {
+    const content = fs.readFileSync(path.join(workspacePath, file), "utf-8");
+    return parseSuppressions(content, file);
+  } catch {
+    // Issues can point at files that no longer exist
+    return [];
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * TypeScript type definitions for validation reports
+ */
+
+import type {
+  ValidationIssue,
+  ValidationOutput,
+  ValidationType,
+} from "../types/spectr";
+
+/**
+ * A validation issue resolved to a workspace-relative location
+ */
+export interface ReportedIssue extends ValidationIssue {
+  /** File path relative to the workspace, with forward slashes */
+  file: string;
+  /** Project the issue belongs to (path relative to the workspace) */
+  project: string;
+  /** Name of the change or spec the issue was reported for */
+  itemName: string;
+  /** Type of the item the issue was reported for */
+  itemType: ValidationType;
+}
+
+/**
+ * Raw validation output of a single project
+ */
+export interface ProjectOutput {
+  /** Project path relative to the workspace */
+  project: string;
+  /** Parsed spectr output for the project */
+  output: ValidationOutput;
+}
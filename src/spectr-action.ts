@@ -1,17 +1,114 @@
 import * as path from "node:path";
 import * as core from "@actions/core";
 import * as exec from "@actions/exec";
+import type { BuildConfig } from "./download/build";
+import {
+  buildFromSource,
+  checkBuildFallback,
+  isMissingAssetError,
+} from "./download/build";
+import type { CacheConfig } from "./download/cache";
+import {
+  getBinaryCacheKey,
+  getToolCachePath,
+  restoreBinaryCache,
+  saveBinaryCache,
+} from "./download/cache";
+import type { CompatibilityConfig } from "./download/compatibility";
+import { checkVersionCompatibility } from "./download/compatibility";
+import type { ResolutionStrategy } from "./download/download-version";
 import {
   downloadVersion,
+  getAssetName,
+  getReleaseAssetNames,
+  resolveCachedVersion,
   resolveVersion,
   tryGetFromToolCache,
 } from "./download/download-version";
+import type { SelectReleaseOptions } from "./download/releases";
+import type { ReleaseSource } from "./download/source";
+import type { InstallConfig } from "./download/system";
+import { findSystemSpectr } from "./download/system";
+import type { SyncResult } from "./issues";
 import { syncIssues } from "./issues";
-import type { ValidationOutput } from "./types/spectr";
-import { hasReport } from "./types/spectr";
-import { getIssueSyncConfig } from "./utils/inputs";
+import { createOctokitClient, getRepoContext } from "./issues/sync";
+import type { BaselineIndex } from "./reports/baseline";
+import {
+  applyBaseline,
+  countUnmatched,
+  createBaseline,
+  indexBaseline,
+  readBaselineFile,
+  writeBaselineFile,
+} from "./reports/baseline";
+import {
+  formatCheckRunSummary,
+  getHeadSha,
+  publishCheckRun,
+} from "./reports/check-run";
+import { collectIssues, filterOutputByFiles } from "./reports/collect";
+import { buildJUnitReport, writeJUnitFile } from "./reports/junit";
+import { getPullRequestNumber, upsertPrComment } from "./reports/pr-comment";
+import { getValidationTotals, writeResultsFile } from "./reports/results";
+import { buildSarifLog, writeSarifFile } from "./reports/sarif";
+import { addJobSummary } from "./reports/summary";
+import { applySuppressions } from "./reports/suppressions";
+import type { ProjectOutput, ReportedIssue } from "./reports/types";
+import { normalizeValidationOutput } from "./types/adapters";
+import type { FailOnLevel, ValidationOutput } from "./types/spectr";
+import {
+  hasReport,
+  isFailingLevel,
+  outputFails,
+  summaryFails,
+} from "./types/spectr";
+import { buildValidateArgs, parseArgs } from "./utils/args";
+import { getChangedFiles } from "./utils/changed-files";
+import {
+  args,
+  checksum,
+  getBaselineConfig,
+  getBuildConfig,
+  getCacheConfig,
+  getCheckRunConfig,
+  getCompatibilityConfig,
+  getFailOn,
+  getInstallConfig,
+  getIssueSyncConfig,
+  getJobSummaryConfig,
+  getOnlyChangedConfig,
+  getPrCommentConfig,
+  getReleaseSelectionConfig,
+  getReleaseSource,
+  getResolutionStrategy,
+  junitFile,
+  sarifFile,
+  src,
+  versionFile,
+} from "./utils/inputs";
 import type { Architecture, Platform } from "./utils/platforms";
 import { getArch, getPlatform } from "./utils/platforms";
+import type { SpectrProject } from "./utils/projects";
+import { findProjects } from "./utils/projects";
+import { getVersionInput } from "./utils/version-file";
+
+/**
+ * Validation totals for a single Spectr project
+ */
+interface ProjectResult {
+  /** Project path relative to the workspace */
+  project: string;
+  /** Number of changes and specs validated */
+  itemsValidated: number;
+  /** Number of error-level issues */
+  errors: number;
+  /** Number of warning-level issues */
+  warnings: number;
+  /** Number of info-level issues */
+  info: number;
+  /** Whether the project failed validation under the fail-on policy */
+  hasErrors: boolean;
+}
 
 /**
  * Main entry point for the GitHub Action
@@ -19,10 +116,33 @@ import { getArch, getPlatform } from "./utils/platforms";
 async function run(): Promise<void> {
   try {
     // 1. Get inputs
-    const version = core.getInput("version");
     const githubToken = core.getInput("github-token");
+    const { version, source } = getVersionInput(
+      core.getInput("version"),
+      versionFile,
+      process.env.GITHUB_WORKSPACE || ".",
+    );
+    const validateArgs = buildValidateArgs(parseArgs(args));
+    const failOn = getFailOn();
+    const onlyChanged = getOnlyChangedConfig();
+    const checkRun = getCheckRunConfig();
+    const prComment = getPrCommentConfig();
+    const jobSummary = getJobSummaryConfig();
+    const baselineConfig = getBaselineConfig();
+    const compatibility = getCompatibilityConfig();
+    const install = getInstallConfig();
+    const releaseSource = getReleaseSource();
+    const resolutionStrategy = getResolutionStrategy();
+    const selection = getReleaseSelectionConfig();
+    const cacheConfig = getCacheConfig();
+    const build = getBuildConfig();
 
     core.info("Starting spectr validation");
+    if (source) {
+      core.info(
+        `Using spectr version ${source.version} from ${source.file}:${source.line}`,
+      );
+    }
 
     // 2. Setup platform and architecture
     const platform = getPlatform();
@@ -36,25 +156,235 @@ async function run(): Promise<void> {
     }
 
     // 3. Setup spectr binary
-    const spectrPath = await setupSpectr(platform, arch, version, githubToken);
+    const { spectrPath, resolvedVersion } = await setupSpectr(
+      platform,
+      arch,
+      version,
+      githubToken,
+      compatibility,
+      install,
+      releaseSource,
+      resolutionStrategy,
+      selection,
+      cacheConfig,
+      build,
+    );
     core.info(`Successfully installed spectr at ${spectrPath}`);
 
-    // 4. Run spectr validation
-    const validationOutput = await runSpectrValidation(spectrPath);
+    // 4. Find the Spectr projects to validate
+    const workspacePath = process.env.GITHUB_WORKSPACE;
+    if (!workspacePath) {
+      throw new Error("GITHUB_WORKSPACE environment variable is not set");
+    }
+    const projects = await findProjects(src, workspacePath);
+    const isMultiProject = projects.length > 1;
+    if (isMultiProject) {
+      core.info(
+        `Found ${projects.length} Spectr projects: ${projects.map((p) => p.name).join(", ")}`,
+      );
+    }
+
+    // 5. Determine the changed files when only reporting on them
+    const pullNumber = getPullRequestNumber();
+    let changedFiles: Set<string> | undefined;
+    if (onlyChanged.enabled) {
+      changedFiles = await getChangedFiles(
+        githubToken ? createOctokitClient(githubToken) : undefined,
+        pullNumber !== undefined ? getRepoContext() : undefined,
+        pullNumber,
+        workspacePath,
+      );
+      if (changedFiles) {
+        core.info(
+          `Reporting only issues on the ${changedFiles.size} files changed by the pull request`,
+        );
+      } else {
+        core.info("Not a pull request, reporting issues on all files");
+      }
+    }
+
+    // 6. Load the baseline of known issues
+    let baselineIndex: BaselineIndex | undefined;
+    if (baselineConfig.file && !baselineConfig.write) {
+      const baseline = readBaselineFile(
+        path.resolve(workspacePath, baselineConfig.file),
+      );
+      baselineIndex = indexBaseline(baseline);
+      core.info(
+        `Loaded baseline with ${baseline.issues.length} known issues from ${baselineConfig.file}`,
+      );
+    }
+
+    // 7. Run spectr validation and create annotations for each project
+    const projectResults: ProjectResult[] = [];
+    const reportedIssues: ReportedIssue[] = [];
+    const projectOutputs: ProjectOutput[] = [];
+    const rawOutputs: ValidationOutput[] = [];
+    const baselinedIssues: ReportedIssue[] = [];
+    let suppressedCount = 0;
+    for (const project of projects) {
+      if (isMultiProject) {
+        core.info("");
+        core.info(`=== Project: ${project.name} ===`);
+      }
+      const validationOutput = await runSpectrValidation(
+        spectrPath,
+        resolvedVersion,
+        project.path,
+        validateArgs,
+      );
+      const suppression = applySuppressions(
+        validationOutput,
+        project.name,
+        project.path,
+        workspacePath,
+      );
+      suppressedCount += suppression.suppressed.length;
+      for (const unused of suppression.unused) {
+        core.warning(
+          `Unused suppression: no issue matches "${unused.pattern || "*"}"`,
+          { file: unused.file, startLine: unused.line, title: "spectr-ignore" },
+        );
+      }
+
+      let baselinedOutput = suppression.output;
+      if (baselineConfig.file) {
+        // When writing a baseline every current issue is part of it
+        const index =
+          baselineIndex ??
+          indexBaseline(
+            createBaseline(
+              collectIssues(
+                suppression.output,
+                project.name,
+                project.path,
+                workspacePath,
+              ),
+            ),
+          );
+        const { output, matched } = applyBaseline(
+          suppression.output,
+          index,
+          project.name,
+          project.path,
+          workspacePath,
+        );
+        baselinedOutput = output;
+        baselinedIssues.push(...matched);
+        if (baselineConfig.matches === "notice") {
+          annotateBaselinedIssues(matched, isMultiProject);
+        }
+      }
+      const reportedOutput = changedFiles
+        ? filterOutputByFiles(
+            baselinedOutput,
+            changedFiles,
+            project.path,
+            workspacePath,
+          )
+        : baselinedOutput;
+      const { projectResult, issues } = await processValidationResults(
+        reportedOutput,
+        project,
+        failOn,
+        isMultiProject,
+      );
+      if (
+        changedFiles &&
+        onlyChanged.failOnUnrelated &&
+        !projectResult.hasErrors &&
+        outputFails(baselinedOutput, failOn)
+      ) {
+        core.error(
+          "Validation fails on files not changed by the pull request (fail-on-unrelated)",
+        );
+        projectResult.hasErrors = true;
+      }
+      projectResults.push(projectResult);
+      reportedIssues.push(...issues);
+      projectOutputs.push({ output: reportedOutput, project: project.name });
+      rawOutputs.push(validationOutput);
+    }
+    const hasErrors = projectResults.some((result) => result.hasErrors);
+    if (isMultiProject) {
+      logProjectsSummary(projectResults);
+    }
+
+    if (suppressedCount > 0) {
+      core.info(`Suppressed ${suppressedCount} issues with spectr-ignore`);
+    }
+    core.setOutput("suppressed-issues", suppressedCount.toString());
 
-    // 5. Process results and create annotations
-    const hasErrors = await processValidationResults(validationOutput);
+    if (baselineConfig.write) {
+      const writtenPath = await writeBaselineFile(
+        path.resolve(workspacePath, baselineConfig.file),
+        createBaseline(baselinedIssues),
+      );
+      core.info(
+        `Wrote baseline with ${baselinedIssues.length} issues to ${writtenPath}`,
+      );
+      core.setOutput("baseline-file", writtenPath);
+    } else if (baselineIndex) {
+      core.info(
+        `Suppressed ${baselinedIssues.length} issues matching the baseline`,
+      );
+      const unmatched = countUnmatched(baselineIndex);
+      if (unmatched > 0) {
+        core.info(
+          `${unmatched} baseline issues no longer occur; regenerate the baseline with 'write-baseline: true' to drop them`,
+        );
+      }
+    }
+    core.setOutput("project-results", JSON.stringify(projectResults));
+
+    const totals = getValidationTotals(projectOutputs);
+    core.setOutput("errors", totals.errors.toString());
+    core.setOutput("warnings", totals.warnings.toString());
+    core.setOutput("info", totals.info.toString());
+    core.setOutput("items-validated", totals.itemsValidated.toString());
+    core.setOutput("items-failed", totals.itemsFailed.toString());
+    core.setOutput("valid", (!hasErrors).toString());
+    core.setOutput("results-file", await writeResultsFile(rawOutputs));
+
+    if (sarifFile) {
+      const writtenPath = await writeSarifFile(
+        path.resolve(workspacePath, sarifFile),
+        buildSarifLog(reportedIssues, resolvedVersion),
+      );
+      core.info(`Wrote SARIF report to ${writtenPath}`);
+      core.setOutput("sarif-file", writtenPath);
+    }
 
-    // 6. Run issue sync if enabled
+    if (junitFile) {
+      const writtenPath = await writeJUnitFile(
+        path.resolve(workspacePath, junitFile),
+        buildJUnitReport(projectOutputs, reportedIssues, failOn),
+      );
+      core.info(`Wrote JUnit report to ${writtenPath}`);
+      core.setOutput("junit-file", writtenPath);
+    }
+
+    // 8. Run issue sync if enabled
     const issueSyncConfig = getIssueSyncConfig();
+    let syncResult: SyncResult | undefined;
     if (issueSyncConfig.enabled) {
-      const workspacePath = process.env.GITHUB_WORKSPACE;
-      if (!workspacePath) {
-        throw new Error("GITHUB_WORKSPACE environment variable is not set");
-      }
       core.info("");
       core.info("=== Issue Sync ===");
-      const syncResult = await syncIssues(issueSyncConfig, workspacePath);
+      syncResult = {
+        closed: 0,
+        created: 0,
+        errors: [],
+        totalChanges: 0,
+        updated: 0,
+      };
+      for (const project of projects) {
+        const projectSync = await syncIssues(issueSyncConfig, project.path);
+        syncResult.created += projectSync.created;
+        syncResult.updated += projectSync.updated;
+        syncResult.closed += projectSync.closed;
+        syncResult.totalChanges += projectSync.totalChanges;
+        syncResult.errors.push(...projectSync.errors);
+      }
 
       // Set issue sync outputs
       core.setOutput("issues-created", syncResult.created.toString());
@@ -63,9 +393,80 @@ async function run(): Promise<void> {
       core.setOutput("total-changes", syncResult.totalChanges.toString());
     }
 
-    // 7. Set action status
+    // 9. Publish a check run with all annotations if enabled
+    if (checkRun.enabled) {
+      try {
+        const checkRunId = await publishCheckRun(
+          createOctokitClient(githubToken),
+          getRepoContext(),
+          reportedIssues,
+          {
+            headSha: getHeadSha(),
+            name: checkRun.name,
+            passed: !hasErrors,
+            showProjectName: isMultiProject,
+            summary: formatCheckRunSummary(
+              reportedIssues,
+              projectResults.reduce((sum, r) => sum + r.itemsValidated, 0),
+              failOn,
+            ),
+          },
+        );
+        core.info(
+          `Published check run ${checkRunId} with ${reportedIssues.length} annotations`,
+        );
+      } catch (error) {
+        core.warning(
+          `Failed to publish check run (requires 'checks: write' permission): ${(error as Error).message}`,
+        );
+      }
+    }
+
+    // 10. Update the sticky pull request comment if enabled
+    if (prComment.enabled && pullNumber !== undefined) {
+      try {
+        const comment = await upsertPrComment(
+          createOctokitClient(githubToken),
+          getRepoContext(),
+          pullNumber,
+          {
+            failOn,
+            issues: reportedIssues,
+            passed: !hasErrors,
+            projectOutputs,
+            spectrVersion: resolvedVersion,
+          },
+        );
+        core.info(
+          `${comment.created ? "Created" : "Updated"} validation comment on pull request #${pullNumber}`,
+        );
+      } catch (error) {
+        core.warning(
+          `Failed to update pull request comment (requires 'pull-requests: write' permission): ${(error as Error).message}`,
+        );
+      }
+    }
+
+    // 11. Write the job summary
+    if (jobSummary.enabled && process.env.GITHUB_STEP_SUMMARY) {
+      addJobSummary({
+        failOn,
+        issues: reportedIssues,
+        passed: !hasErrors,
+        projectOutputs,
+        spectrVersion: resolvedVersion,
+        syncResult,
+      });
+      await core.summary.write();
+    }
+
+    // 12. Set action status
     if (hasErrors) {
-      core.setFailed("Spectr validation failed with errors");
+      core.setFailed(
+        failOn === "error"
+          ? "Spectr validation failed with errors"
+          : `Spectr validation failed (fail-on: ${failOn})`,
+      );
     } else {
       core.info("Spectr validation passed");
     }
@@ -75,69 +476,172 @@ async function run(): Promise<void> {
 }
 
 /**
- * Setup spectr binary (download/cache)
- * @returns Path to spectr executable
+ * Setup spectr binary (installed, cached or downloaded)
+ * @returns Path to spectr executable and the resolved version
  */
 async function setupSpectr(
   platform: Platform,
   arch: Architecture,
   versionInput: string,
   githubToken: string,
-): Promise<string> {
-  // Resolve version (handle 'latest', semver ranges, etc.)
-  const resolvedVersion = await resolveVersion(
-    versionInput || "latest",
-    githubToken,
-  );
+  compatibility: CompatibilityConfig,
+  install: InstallConfig,
+  source: ReleaseSource,
+  strategy: ResolutionStrategy,
+  selection: SelectReleaseOptions,
+  cacheConfig: CacheConfig,
+  build: BuildConfig,
+): Promise<{ spectrPath: string; resolvedVersion: string }> {
+  // Use a pre-installed binary when configured; no network access needed
+  const systemSpectr = await findSystemSpectr(install, versionInput);
+  if (systemSpectr) {
+    core.info(
+      `Using installed spectr ${systemSpectr.version} at ${systemSpectr.path}`,
+    );
+    core.setOutput("spectr-version", systemSpectr.version);
+    checkVersionCompatibility(
+      systemSpectr.version,
+      compatibility.unsupportedVersion,
+    );
+    return {
+      resolvedVersion: systemSpectr.version,
+      spectrPath: systemSpectr.path,
+    };
+  }
+
+  // Resolve version (handle 'latest', channels, commit SHAs, semver ranges,
+  // etc.), consulting the tool cache first unless resolving online
+  let resolvedVersion =
+    strategy === "online"
+      ? undefined
+      : resolveCachedVersion(
+          arch,
+          versionInput,
+          compatibility.latestCompatible,
+          selection.includePrereleases,
+        );
+  if (resolvedVersion) {
+    core.notice(
+      `Using cached spectr ${resolvedVersion} for version '${versionInput}' without querying the GitHub API (resolution-strategy: ${strategy})`,
+    );
+  } else if (strategy === "offline") {
+    throw new Error(
+      `No spectr version satisfying '${versionInput}' is in the tool cache and resolution-strategy is offline`,
+    );
+  } else {
+    if (strategy === "cache-first") {
+      core.info(
+        `No spectr version satisfying '${versionInput}' is in the tool cache, resolving online`,
+      );
+    }
+    resolvedVersion = await resolveVersion(versionInput, githubToken, {
+      ...selection,
+      cacheConfig,
+      latestCompatible: compatibility.latestCompatible,
+      source,
+    });
+  }
   core.info(`Resolved version: ${resolvedVersion}`);
   core.setOutput("spectr-version", resolvedVersion);
+  checkVersionCompatibility(resolvedVersion, compatibility.unsupportedVersion);
+
+  const executableName = platform === "Windows" ? "spectr.exe" : "spectr";
 
-  // Try to get from tool cache first
-  const toolCacheResult = tryGetFromToolCache(arch, resolvedVersion);
+  // Try to get from tool cache first, restoring it from the Actions cache
+  // if an earlier job saved it
+  const binaryCacheKey = getBinaryCacheKey(
+    source,
+    resolvedVersion,
+    platform,
+    arch,
+  );
+  let toolCacheResult = tryGetFromToolCache(arch, resolvedVersion);
+  if (
+    !toolCacheResult.installedPath &&
+    cacheConfig.enabled &&
+    (await restoreBinaryCache(
+      binaryCacheKey,
+      getToolCachePath(resolvedVersion, arch),
+    ))
+  ) {
+    toolCacheResult = tryGetFromToolCache(arch, resolvedVersion);
+  }
   if (toolCacheResult.installedPath) {
     core.info(
       `Found spectr in tool-cache for version ${toolCacheResult.version}`,
     );
-    const executableName = platform === "Windows" ? "spectr.exe" : "spectr";
-    return path.join(toolCacheResult.installedPath, executableName);
+    return {
+      resolvedVersion,
+      spectrPath: path.join(toolCacheResult.installedPath, executableName),
+    };
   }
 
-  // Download and cache the binary
+  // Download and cache the binary, building it from source when the release
+  // has no asset for this runner. Builds are not verified against the
+  // release, so they are not saved to the Actions cache for other jobs
   core.info(`Downloading spectr version ${resolvedVersion}...`);
-  const downloadResult = await downloadVersion(
-    platform,
-    arch,
-    resolvedVersion,
-    githubToken,
-  );
+  let downloadResult: { version: string; cachedToolDir: string };
+  let built = false;
+  try {
+    downloadResult = await downloadVersion(
+      platform,
+      arch,
+      resolvedVersion,
+      checksum,
+      githubToken,
+      source,
+    );
+  } catch (error) {
+    if (!build.enabled || !isMissingAssetError(error)) {
+      throw error;
+    }
+    checkBuildFallback(
+      checksum,
+      resolvedVersion,
+      getAssetName(platform, arch),
+      await getReleaseAssetNames(resolvedVersion, githubToken, source),
+    );
+    core.info(
+      `spectr ${resolvedVersion} has no release asset for ${platform} ${arch}, building it from source`,
+    );
+    downloadResult = await buildFromSource(
+      build,
+      source,
+      resolvedVersion,
+      platform,
+      arch,
+    );
+    built = true;
+  }
+  if (cacheConfig.enabled && !built) {
+    await saveBinaryCache(binaryCacheKey, downloadResult.cachedToolDir);
+  }
 
-  const executableName = platform === "Windows" ? "spectr.exe" : "spectr";
-  return path.join(downloadResult.cachedToolDir, executableName);
+  return {
+    resolvedVersion,
+    spectrPath: path.join(downloadResult.cachedToolDir, executableName),
+  };
 }
 
 /**
  * Run spectr validation and return parsed JSON output
+ * @param spectrVersion - Resolved version, used to pick the output adapter
  */
 async function runSpectrValidation(
   spectrPath: string,
+  spectrVersion: string,
+  projectPath: string,
+  validateArgs: string[],
 ): Promise<ValidationOutput> {
-  const workspacePath = process.env.GITHUB_WORKSPACE;
-  if (!workspacePath) {
-    throw new Error("GITHUB_WORKSPACE environment variable is not set");
-  }
-
-  // Build command arguments
-  const args = ["validate", "--all", "--json"];
-
-  core.info(`Running: ${spectrPath} ${args.join(" ")}`);
-  core.info(`Working directory: ${workspacePath}`);
+  core.info(`Running: ${spectrPath} ${validateArgs.join(" ")}`);
+  core.info(`Working directory: ${projectPath}`);
 
   // Capture stdout
   let stdout = "";
   let stderr = "";
 
   const options: exec.ExecOptions = {
-    cwd: workspacePath,
+    cwd: projectPath,
     ignoreReturnCode: true, // Don't throw on non-zero exit (we'll handle it)
     listeners: {
       stderr: (data: Buffer) => {
@@ -149,7 +653,7 @@ async function runSpectrValidation(
     },
   };
 
-  const exitCode = await exec.exec(spectrPath, args, options);
+  const exitCode = await exec.exec(spectrPath, validateArgs, options);
 
   // Log stderr if present (warnings, debug info)
   if (stderr) {
@@ -159,13 +663,13 @@ async function runSpectrValidation(
   // Parse JSON output
   if (!stdout.trim()) {
     throw new Error(
-      `No JSON output received from spectr validate. Exit code: ${exitCode}`,
+      `No JSON output received from spectr ${validateArgs.join(" ")}. Exit code: ${exitCode}`,
     );
   }
 
-  let validationOutput: ValidationOutput;
+  let parsedOutput: unknown;
   try {
-    validationOutput = JSON.parse(stdout) as ValidationOutput;
+    parsedOutput = JSON.parse(stdout);
   } catch (parseError) {
     core.error(`Failed to parse JSON output from spectr validate`);
     core.error(`Raw output: ${stdout.substring(0, 500)}`);
@@ -174,22 +678,41 @@ async function runSpectrValidation(
     );
   }
 
+  let validationOutput: ValidationOutput;
+  try {
+    validationOutput = normalizeValidationOutput(parsedOutput, spectrVersion);
+  } catch (schemaError) {
+    core.error(
+      `Unexpected output format from spectr ${spectrVersion}; this version may not be supported yet`,
+    );
+    core.error(`Raw output: ${stdout.substring(0, 500)}`);
+    throw schemaError;
+  }
+
   core.info(`Validation completed: ${validationOutput.length} items validated`);
   return validationOutput;
 }
 
 /**
  * Process validation results and create GitHub annotations
- * @returns true if any errors were found
+ * Issue paths are resolved against the project root, annotation paths are
+ * made relative to the workspace so PR file links keep working
+ * @param failOn - Minimum issue level that fails validation
+ * @param showProjectName - Prefix annotation titles with the project name
+ * @returns Validation totals and the issues reported for the project
  */
 async function processValidationResults(
   validationOutput: ValidationOutput,
-): Promise<boolean> {
+  project: SpectrProject,
+  failOn: FailOnLevel,
+  showProjectName: boolean,
+): Promise<{ projectResult: ProjectResult; issues: ReportedIssue[] }> {
   const workspacePath = process.env.GITHUB_WORKSPACE || ".";
   let hasErrors = false;
   let totalErrors = 0;
   let totalWarnings = 0;
   let totalInfo = 0;
+  const issues: ReportedIssue[] = [];
 
   for (const result of validationOutput) {
     // Skip valid results with no issues
@@ -203,7 +726,7 @@ async function processValidationResults(
       core.error(
         `Failed to validate ${result.type} "${result.name}": ${result.error}`,
       );
-      hasErrors = true;
+      hasErrors ||= isFailingLevel("ERROR", failOn);
       continue;
     }
 
@@ -214,33 +737,34 @@ async function processValidationResults(
 
     const { report } = result;
     const itemTitle = `${result.type}: ${result.name}`;
+    const annotationTitle = showProjectName
+      ? `${project.name} › ${itemTitle}`
+      : itemTitle;
 
     // Log summary for this item
     if (report.summary.errors > 0) {
       core.error(
         `✗ ${itemTitle} - ${report.summary.errors} errors, ${report.summary.warnings} warnings`,
       );
-      hasErrors = true;
     } else if (report.summary.warnings > 0) {
       core.warning(`⚠ ${itemTitle} - ${report.summary.warnings} warnings`);
     } else {
       core.info(`ℹ ${itemTitle} - ${report.summary.info} info messages`);
     }
+    hasErrors ||= summaryFails(report.summary, failOn);
 
     // Create annotations for each issue
-    for (const issue of report.issues) {
-      const rawPath = issue.path.split(/:(?:\s|$)/)[0];
-      const workspaceRoot = path.resolve(workspacePath);
-      const absolutePath = path.isAbsolute(rawPath)
-        ? rawPath
-        : path.resolve(workspaceRoot, rawPath);
-      const relativePath = path
-        .relative(workspaceRoot, absolutePath)
-        .replace(/\\\\/g, "/");
-      const annotationTitle = itemTitle;
-
-      const annotationProps = {
-        file: relativePath,
+    const resultIssues = collectIssues(
+      [result],
+      project.name,
+      project.path,
+      workspacePath,
+    );
+    for (const issue of resultIssues) {
+      const annotationProps: core.AnnotationProperties = {
+        endLine: issue.endLine,
+        file: issue.file,
+        startColumn: issue.endLine ? undefined : issue.column,
         startLine: issue.line || 1,
         title: annotationTitle,
       };
@@ -256,17 +780,65 @@ async function processValidationResults(
         totalInfo++;
       }
     }
+    issues.push(...resultIssues);
   }
 
   // Log overall summary
   core.info("");
-  core.info("=== Validation Summary ===");
+  core.info(
+    showProjectName
+      ? `=== Validation Summary (${project.name}) ===`
+      : "=== Validation Summary ===",
+  );
   core.info(`Total items validated: ${validationOutput.length}`);
   core.info(`Errors: ${totalErrors}`);
   core.info(`Warnings: ${totalWarnings}`);
   core.info(`Info: ${totalInfo}`);
+  core.info(`Fail on: ${failOn}`);
+
+  return {
+    issues,
+    projectResult: {
+      errors: totalErrors,
+      hasErrors,
+      info: totalInfo,
+      itemsValidated: validationOutput.length,
+      project: project.name,
+      warnings: totalWarnings,
+    },
+  };
+}
 
-  return hasErrors;
+/**
+ * Annotate issues matching the baseline as notices
+ * Baselined issues never fail validation, whatever their level
+ */
+function annotateBaselinedIssues(
+  issues: ReportedIssue[],
+  showProjectName: boolean,
+): void {
+  for (const issue of issues) {
+    const itemTitle = `${issue.itemType}: ${issue.itemName}`;
+    core.notice(`[baseline ${issue.level}] ${issue.message}`, {
+      file: issue.file,
+      startLine: issue.line || 1,
+      title: showProjectName ? `${issue.project} › ${itemTitle}` : itemTitle,
+    });
+  }
+}
+
+/**
+ * Log per-project totals when validating several projects
+ */
+function logProjectsSummary(projectResults: ProjectResult[]): void {
+  core.info("");
+  core.info("=== Projects Summary ===");
+  for (const result of projectResults) {
+    const status = result.hasErrors ? "✗" : "✓";
+    core.info(
+      `${status} ${result.project}: ${result.itemsValidated} items, ${result.errors} errors, ${result.warnings} warnings, ${result.info} info`,
+    );
+  }
 }
 
 // Execute the action
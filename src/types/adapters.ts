@@ -0,0 +1,69 @@
+/**
+ * Output format adapters
+ *
+ * Each adapter turns the JSON printed by a range of spectr releases into the
+ * shape of `ValidationOutput`; the result is then checked by the schema
+ * validator. Every release so far prints the bulk result array as is. When
+ * a release changes the output format, add an adapter for the new range in
+ * front of the list, with a fixture of that release's real output
+ */
+
+import * as semver from "semver";
+import { validateValidationOutput } from "./schema";
+import type { ValidationOutput } from "./spectr";
+
+/**
+ * Normalizes the output of a range of spectr releases
+ */
+export interface OutputAdapter {
+  /** Name used in logs */
+  name: string;
+  /** Semver range of spectr versions the adapter handles */
+  range: string;
+  /** Convert parsed JSON into the shape of ValidationOutput */
+  adapt: (output: unknown) => unknown;
+}
+
+/**
+ * Known adapters, newest format first
+ */
+export const OUTPUT_ADAPTERS: readonly OutputAdapter[] = [
+  {
+    adapt: (output) => output,
+    name: "bulk-results",
+    range: "*",
+  },
+];
+
+/**
+ * Find the adapter for a spectr version
+ * Versions that are not semver (e.g. local builds) get the newest adapter
+ * @param version - Resolved spectr version, with or without a `v` prefix
+ * @param adapters - Adapters to choose from, newest first
+ */
+export function getOutputAdapter(
+  version: string,
+  adapters: readonly OutputAdapter[] = OUTPUT_ADAPTERS,
+): OutputAdapter {
+  // Prereleases already print the format of their release
+  const parsed = semver.coerce(version);
+  const adapter = parsed
+    ? adapters.find((candidate) => semver.satisfies(parsed, candidate.range))
+    : undefined;
+  return adapter ?? adapters[0];
+}
+
+/**
+ * Normalize and validate parsed spectr output
+ * @param output - Parsed JSON printed by `spectr validate --json`
+ * @param version - Resolved spectr version that printed it
+ * @throws Error naming the first field that does not match the types
+ */
+export function normalizeValidationOutput(
+  output: unknown,
+  version: string,
+  adapters: readonly OutputAdapter[] = OUTPUT_ADAPTERS,
+): ValidationOutput {
+  const adapter = getOutputAdapter(version, adapters);
+  return validateValidationOutput(adapter.adapt(output));
+}
@@ -0,0 +1,188 @@
+/**
+ * Runtime validation of spectr JSON output
+ *
+ * Checks parsed `spectr validate --json` output against the types in
+ * `./spectr` so that format changes fail early with the offending location,
+ * e.g. `$[2].report.issues[0].level`
+ */
+
+import type {
+  BulkResult,
+  ValidationIssue,
+  ValidationLevel,
+  ValidationOutput,
+  ValidationReport,
+  ValidationSummary,
+  ValidationType,
+} from "./spectr";
+
+const VALIDATION_LEVELS: readonly ValidationLevel[] = [
+  "ERROR",
+  "WARNING",
+  "INFO",
+];
+const VALIDATION_TYPES: readonly ValidationType[] = ["change", "spec"];
+
+/**
+ * Validate parsed spectr output
+ * Unknown fields are dropped
+ * @param value - Parsed JSON
+ * @returns Output typed as ValidationOutput
+ * @throws Error naming the first invalid field and what was expected
+ */
+export function validateValidationOutput(value: unknown): ValidationOutput {
+  if (!Array.isArray(value)) {
+    throw invalid("$", "an array of results", value);
+  }
+  return value.map((result, index) =>
+    validateBulkResult(result, `$[${index}]`),
+  );
+}
+
+/**
+ * Validate a single bulk validation result
+ * @param at - Location of the value, used in error messages
+ */
+export function validateBulkResult(value: unknown, at = "$"): BulkResult {
+  const result = expectObject(value, at);
+  const bulkResult: BulkResult = {
+    name: expectString(result.name, `${at}.name`),
+    type: expectOneOf(result.type, VALIDATION_TYPES, `${at}.type`),
+    valid: expectBoolean(result.valid, `${at}.valid`),
+  };
+  if (result.report !== undefined && result.report !== null) {
+    bulkResult.report = validateValidationReport(result.report, `${at}.report`);
+  }
+  if (result.error !== undefined && result.error !== null) {
+    bulkResult.error = expectString(result.error, `${at}.error`);
+  }
+  return bulkResult;
+}
+
+/**
+ * Validate a validation report
+ * @param at - Location of the value, used in error messages
+ */
+export function validateValidationReport(
+  value: unknown,
+  at = "$",
+): ValidationReport {
+  const report = expectObject(value, at);
+  if (!Array.isArray(report.issues)) {
+    throw invalid(`${at}.issues`, "an array", report.issues);
+  }
+  return {
+    issues: report.issues.map((issue, index) =>
+      validateValidationIssue(issue, `${at}.issues[${index}]`),
+    ),
+    summary: validateSummary(report.summary, `${at}.summary`),
+    valid: expectBoolean(report.valid, `${at}.valid`),
+  };
+}
+
+function validateValidationIssue(value: unknown, at: string): ValidationIssue {
+  const issue = expectObject(value, at);
+  const validated: ValidationIssue = {
+    level: expectOneOf(issue.level, VALIDATION_LEVELS, `${at}.level`),
+    message: expectString(issue.message, `${at}.message`),
+    path: expectString(issue.path, `${at}.path`),
+  };
+  const line = expectOptionalLine(issue.line, `${at}.line`);
+  if (line !== undefined) {
+    validated.line = line;
+  }
+  const endLine = expectOptionalLine(issue.endLine, `${at}.endLine`);
+  if (endLine !== undefined) {
+    validated.endLine = endLine;
+  }
+  const column = expectOptionalLine(issue.column, `${at}.column`);
+  if (column !== undefined) {
+    validated.column = column;
+  }
+  return validated;
+}
+
+function validateSummary(value: unknown, at: string): ValidationSummary {
+  const summary = expectObject(value, at);
+  return {
+    errors: expectCount(summary.errors, `${at}.errors`),
+    info: expectCount(summary.info, `${at}.info`),
+    warnings: expectCount(summary.warnings, `${at}.warnings`),
+  };
+}
+
+function expectObject(value: unknown, at: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw invalid(at, "an object", value);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectString(value: unknown, at: string): string {
+  if (typeof value !== "string") {
+    throw invalid(at, "a string", value);
+  }
+  return value;
+}
+
+function expectBoolean(value: unknown, at: string): boolean {
+  if (typeof value !== "boolean") {
+    throw invalid(at, "a boolean", value);
+  }
+  return value;
+}
+
+function expectCount(value: unknown, at: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw invalid(at, "a non-negative integer", value);
+  }
+  return value;
+}
+
+function expectOptionalLine(value: unknown, at: string): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  // 0 is treated like a missing line, as annotations already do
+  if (value === 0) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw invalid(at, "a positive integer", value);
+  }
+  return value;
+}
+
+function expectOneOf<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  at: string,
+): T {
+  if (!allowed.includes(value as T)) {
+    throw invalid(
+      at,
+      `one of ${allowed.map((option) => JSON.stringify(option)).join(", ")}`,
+      value,
+    );
+  }
+  return value as T;
+}
+
+function invalid(at: string, expected: string, value: unknown): Error {
+  return new Error(
+    `Invalid spectr output at ${at}: expected ${expected}, got ${describeValue(value)}`,
+  );
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) {
+    return "nothing";
+  }
+  if (Array.isArray(value)) {
+    return "an array";
+  }
+  if (typeof value === "object" && value !== null) {
+    return "an object";
+  }
+  return JSON.stringify(value);
+}
@@ -10,6 +10,11 @@
  */
 export type ValidationLevel = "ERROR" | "WARNING" | "INFO";
 
+/**
+ * Minimum issue level that fails the action ("never" only reports)
+ */
+export type FailOnLevel = "error" | "warning" | "info" | "never";
+
 /**
  * A single validation issue with location and message
  */
@@ -20,6 +25,10 @@ export interface ValidationIssue {
   path: string;
   /** Optional line number where the issue occurs */
   line?: number;
+  /** Optional last line, for issues spanning several lines */
+  endLine?: number;
+  /** Optional column on the first line where the issue occurs */
+  column?: number;
   /** Human-readable description of the issue */
   message: string;
 }
@@ -167,6 +176,52 @@ export const getFailedResults = (output: ValidationOutput): BulkResult[] =>
 export const getResultsWithErrors = (output: ValidationOutput): BulkResult[] =>
   output.filter((r) => r.report && r.report.summary.errors > 0);
 
+const LEVEL_SEVERITY: Record<ValidationLevel, number> = {
+  ERROR: 3,
+  INFO: 1,
+  WARNING: 2,
+};
+
+const FAIL_ON_SEVERITY: Record<FailOnLevel, number> = {
+  error: 3,
+  info: 1,
+  never: Number.POSITIVE_INFINITY,
+  warning: 2,
+};
+
+/**
+ * Check if an issue level fails the action under the given policy
+ */
+export const isFailingLevel = (
+  level: ValidationLevel,
+  failOn: FailOnLevel,
+): boolean => LEVEL_SEVERITY[level] >= FAIL_ON_SEVERITY[failOn];
+
+/**
+ * Check if a validation summary contains issues that fail the action
+ */
+export const summaryFails = (
+  summary: ValidationSummary,
+  failOn: FailOnLevel,
+): boolean =>
+  (summary.errors > 0 && isFailingLevel("ERROR", failOn)) ||
+  (summary.warnings > 0 && isFailingLevel("WARNING", failOn)) ||
+  (summary.info > 0 && isFailingLevel("INFO", failOn));
+
+/**
+ * Check if any validation result fails the action under the given policy
+ * Results spectr could not validate count as errors
+ */
+export const outputFails = (
+  output: ValidationOutput,
+  failOn: FailOnLevel,
+): boolean =>
+  output.some(
+    (r) =>
+      (hasError(r) && isFailingLevel("ERROR", failOn)) ||
+      (hasReport(r) && summaryFails(r.report.summary, failOn)),
+  );
+
 /**
  * Format validation issue for display
  */
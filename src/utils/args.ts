@@ -0,0 +1,140 @@
+/**
+ * Command-line arguments module
+ *
+ * Parses the `args` input with shell-style quoting and builds the argument
+ * list for `spectr validate`
+ */
+
+const JSON_FLAG = "--json";
+
+/**
+ * Flags of `spectr validate` that take a value
+ * Written as `--flag value`, they take the following word as their value;
+ * any other flag is boolean
+ */
+const VALUE_FLAGS = new Set(["--type"]);
+
+/**
+ * Split a string into arguments using POSIX shell quoting rules
+ * Supports single quotes, double quotes and backslash escapes; no variable
+ * expansion or globbing is performed
+ * @param input - Raw arguments string
+ * @returns Parsed arguments
+ */
+export function parseArgs(input: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let inToken = false;
+  let quote: "'" | '"' | undefined;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = undefined;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (quote === '"') {
+      if (char === '"') {
+        quote = undefined;
+      } else if (char === "\\" && '"\\$`'.includes(input[i + 1] ?? "")) {
+        current += input[++i];
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      inToken = true;
+    } else if (char === "\\") {
+      const next = input[++i];
+      // A backslash before a newline continues the line
+      if (next !== undefined && next !== "\n") {
+        current += next;
+        inToken = true;
+      }
+    } else if (/\s/.test(char)) {
+      if (inToken) {
+        args.push(current);
+        current = "";
+        inToken = false;
+      }
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated ${quote} quote in args: ${input}`);
+  }
+  if (inToken) {
+    args.push(current);
+  }
+  return args;
+}
+
+/**
+ * Build the `spectr validate` arguments from user-supplied extra arguments
+ * `--all` is added unless positional items are given; `--json` is always
+ * added because the action parses the JSON output
+ * @param extraArgs - Parsed user arguments
+ * @returns Full argument list starting with `validate`
+ */
+export function buildValidateArgs(extraArgs: string[]): string[] {
+  for (const arg of extraArgs) {
+    if (
+      arg === "--no-json" ||
+      (arg.startsWith(`${JSON_FLAG}=`) && arg !== `${JSON_FLAG}=true`)
+    ) {
+      throw new Error(
+        `The '${arg}' argument is not allowed: the action requires spectr's JSON output`,
+      );
+    }
+  }
+
+  const userArgs = extraArgs.filter(
+    (arg) => arg !== JSON_FLAG && arg !== `${JSON_FLAG}=true`,
+  );
+  const targetsItems = findItems(userArgs).length > 0;
+
+  return [
+    "validate",
+    ...(targetsItems || userArgs.includes("--all") ? [] : ["--all"]),
+    JSON_FLAG,
+    ...userArgs,
+  ];
+}
+
+/**
+ * Find the positional item names in `spectr validate` arguments
+ * A word following a flag that takes a value is that value, not an item;
+ * every word after `--` is an item
+ */
+export function findItems(args: string[]): string[] {
+  const items: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--") {
+      items.push(...args.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("-")) {
+      items.push(arg);
+    } else if (
+      VALUE_FLAGS.has(arg) &&
+      args[i + 1] !== undefined &&
+      !args[i + 1].startsWith("-")
+    ) {
+      i++;
+    }
+  }
+  return items;
+}
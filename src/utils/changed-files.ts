@@ -0,0 +1,97 @@
+/**
+ * Changed files module
+ *
+ * Determines which files a pull request changes so validation can report
+ * only the issues the author introduced
+ */
+
+import * as core from "@actions/core";
+import * as exec from "@actions/exec";
+import type { RepoContext } from "../issues/types";
+import type { GitHubClientInstance } from "./github-api";
+
+/**
+ * Configuration for diff-aware validation
+ */
+export interface OnlyChangedConfig {
+  /** Whether to report only issues on changed files */
+  enabled: boolean;
+  /** Whether issues on unchanged files still fail the action */
+  failOnUnrelated: boolean;
+}
+
+/**
+ * Get the files changed by a pull request
+ * Uses the pulls API when a pull request number is known and falls back to
+ * `git diff` against the base branch
+ * @param octokit - Authenticated Octokit client, if a token is available
+ * @param repo - Repository context
+ * @param pullNumber - Pull request number, if known
+ * @param workspacePath - Repository checkout used for `git diff`
+ * @returns Workspace-relative paths, or undefined outside of pull requests
+ */
+export async function getChangedFiles(
+  octokit: GitHubClientInstance | undefined,
+  repo: RepoContext | undefined,
+  pullNumber: number | undefined,
+  workspacePath: string,
+): Promise<Set<string> | undefined> {
+  if (octokit && repo && pullNumber !== undefined) {
+    try {
+      return await getChangedFilesFromApi(octokit, repo, pullNumber);
+    } catch (error) {
+      core.warning(
+        `Failed to list pull request files, falling back to git diff: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  const baseRef = process.env.GITHUB_BASE_REF;
+  if (!baseRef) {
+    return undefined;
+  }
+  return getChangedFilesFromGit(baseRef, workspacePath);
+}
+
+/**
+ * List the files changed by a pull request via the pulls API
+ */
+export async function getChangedFilesFromApi(
+  octokit: GitHubClientInstance,
+  repo: RepoContext,
+  pullNumber: number,
+): Promise<Set<string>> {
+  const files = await octokit.paginate(octokit.rest.pulls.listFiles, {
+    owner: repo.owner,
+    per_page: 100,
+    pull_number: pullNumber,
+    repo: repo.repo,
+  });
+  return new Set(files.map((file) => file.filename));
+}
+
+/**
+ * List the files changed since the merge base with the base branch
+ * The base branch must be fetched, e.g. `fetch-depth: 0` on actions/checkout
+ */
+export async function getChangedFilesFromGit(
+  baseRef: string,
+  workspacePath: string,
+): Promise<Set<string>> {
+  const { exitCode, stdout, stderr } = await exec.getExecOutput(
+    "git",
+    ["diff", "--name-only", "--no-renames", `origin/${baseRef}...HEAD`],
+    { cwd: workspacePath, ignoreReturnCode: true, silent: true },
+  );
+  if (exitCode !== 0) {
+    throw new Error(
+      `git diff against origin/${baseRef} failed (is the base branch fetched?): ${stderr.trim()}`,
+    );
+  }
+  return new Set(
+    stdout
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0),
+  );
+}
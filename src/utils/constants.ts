@@ -1,3 +1,6 @@
 export const REPO = "spectr";
 export const OWNER = "connerohnesorge";
 export const TOOL_CACHE_NAME = "spectr";
+export const DEFAULT_API_URL = "https://api.github.com";
+export const DEFAULT_DOWNLOAD_URL =
+  "https://github.com/{owner}/{repo}/releases/download/{version}/{asset}";
@@ -0,0 +1,28 @@
+import * as fs from "node:fs";
+
+/**
+ * Fields of the workflow event payload used by the action
+ */
+export interface EventPayload {
+  pull_request?: {
+    number?: number;
+    head?: { sha?: string };
+    base?: { sha?: string };
+  };
+}
+
+/**
+ * Read the event payload of the current workflow run
+ * @returns Parsed payload, or an empty object when it is unavailable
+ */
+export function readEventPayload(): EventPayload {
+  const eventPath = process.env.GITHUB_EVENT_PATH;
+  if (!eventPath || !fs.existsSync(eventPath)) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(eventPath, "utf-8")) as EventPayload;
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,332 @@
+/**
+ * GitHub API client
+ *
+ * Shared Octokit client for release lookups, issue sync and reports. Every
+ * request is retried with exponential backoff and jitter on network errors,
+ * 5xx responses and rate limits, honoring the `retry-after` and
+ * `x-ratelimit-reset` headers. Failed requests throw a `GitHubApiError`
+ * whose `kind` says what went wrong. A warning is logged once per client
+ * when the remaining quota runs low
+ */
+
+import * as core from "@actions/core";
+import { Octokit } from "@octokit/core";
+import { paginateRest } from "@octokit/plugin-paginate-rest";
+import { restEndpointMethods } from "@octokit/plugin-rest-endpoint-methods";
+import { DEFAULT_API_URL } from "./constants";
+
+/**
+ * Retry behaviour of API requests
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt */
+  retries: number;
+  /** Base delay of the exponential backoff */
+  minDelayMs: number;
+  /** Longest wait before a retry; longer rate limit waits fail instead */
+  maxDelayMs: number;
+  /** Waits between attempts; replaced in tests */
+  sleep: (ms: number) => Promise<void>;
+}
+
+/**
+ * Share of the rate limit below which the remaining quota is reported as low
+ */
+export const LOW_QUOTA_RATIO = 0.1;
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxDelayMs: 60_000,
+  minDelayMs: 1_000,
+  retries: 3,
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+/**
+ * Category of a failed API request
+ * - unauthorized: missing or invalid credentials (401)
+ * - forbidden: insufficient permissions (403)
+ * - not-found: missing resource, or no access to it (404)
+ * - rate-limited: primary or secondary rate limit exceeded
+ * - server: GitHub server error (5xx)
+ * - network: no response received
+ * - request: any other error response, e.g. validation failures (422)
+ */
+export type GitHubApiErrorKind =
+  | "unauthorized"
+  | "forbidden"
+  | "not-found"
+  | "rate-limited"
+  | "server"
+  | "network"
+  | "request";
+
+/**
+ * A failed GitHub API request
+ */
+export class GitHubApiError extends Error {
+  /** What went wrong */
+  readonly kind: GitHubApiErrorKind;
+  /** HTTP status, undefined when no response was received */
+  readonly status: number | undefined;
+  /** When the rate limit resets, for rate-limited requests */
+  readonly rateLimitReset: Date | undefined;
+
+  constructor(
+    message: string,
+    kind: GitHubApiErrorKind,
+    status?: number,
+    rateLimitReset?: Date,
+  ) {
+    super(message);
+    this.name = "GitHubApiError";
+    this.kind = kind;
+    this.status = status;
+    this.rateLimitReset = rateLimitReset;
+  }
+}
+
+/**
+ * Check if an error is a GitHub API error of the given kind
+ */
+export function isGitHubApiError(
+  error: unknown,
+  kind?: GitHubApiErrorKind,
+): error is GitHubApiError {
+  return (
+    error instanceof GitHubApiError &&
+    (kind === undefined || error.kind === kind)
+  );
+}
+
+/**
+ * Error thrown by Octokit, as far as it is used here
+ */
+interface OctokitRequestError {
+  message: string;
+  status?: number;
+  response?: { headers?: Record<string, string | number | undefined> };
+}
+
+/**
+ * Octokit plugin adding retries, quota logging and typed errors
+ * Reads `retry` from the client options
+ */
+export function retryPlugin(
+  octokit: Octokit,
+  options: { retry?: Partial<RetryOptions>; [option: string]: unknown },
+): void {
+  const retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+  let quotaWarned = false;
+  octokit.hook.wrap("request", async (request, requestOptions) => {
+    const description = `${requestOptions.method} ${requestOptions.url}`;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await request(requestOptions);
+        quotaWarned = reportQuota(response.headers, quotaWarned);
+        return response;
+      } catch (error) {
+        const apiError = toGitHubApiError(
+          error as OctokitRequestError,
+          description,
+        );
+        const delay = getRetryDelay(
+          error as OctokitRequestError,
+          apiError,
+          attempt,
+          retry,
+        );
+        if (delay === undefined) {
+          throw apiError;
+        }
+        core.info(
+          `${apiError.message}; retrying in ${Math.ceil(delay / 1000)}s (attempt ${attempt + 2} of ${retry.retries + 1})`,
+        );
+        await retry.sleep(delay);
+      }
+    }
+  });
+}
+
+/**
+ * Octokit with pagination, REST methods and retries
+ */
+export const GitHubClient = Octokit.plugin(
+  paginateRest,
+  restEndpointMethods,
+  retryPlugin,
+);
+
+export type GitHubClientInstance = InstanceType<typeof GitHubClient>;
+
+/**
+ * Create a GitHub API client
+ * @param token - Token to authenticate with; anonymous when empty
+ * @param baseUrl - REST API base URL; defaults to api.github.com
+ * @param retry - Overrides of the default retry behaviour
+ */
+export function createGitHubClient(
+  token?: string,
+  baseUrl?: string,
+  retry?: Partial<RetryOptions>,
+): GitHubClientInstance {
+  return new GitHubClient({ auth: token || undefined, baseUrl, retry });
+}
+
+/**
+ * API base URL of the GitHub instance the workflow runs on, used for calls
+ * against the workflow's repository
+ */
+export function getWorkflowApiUrl(): string {
+  return process.env.GITHUB_API_URL || DEFAULT_API_URL;
+}
+
+/**
+ * Convert an Octokit error into a GitHubApiError
+ * @param description - Method and URL of the request, used in the message
+ */
+export function toGitHubApiError(
+  error: OctokitRequestError,
+  description: string,
+): GitHubApiError {
+  if (error instanceof GitHubApiError) {
+    return error;
+  }
+  const status = error.status;
+  const headers = error.response?.headers ?? {};
+  const message = `GitHub API request ${description} failed${status ? ` (${status})` : ""}: ${error.message}`;
+
+  if (isRateLimited(status, headers, error.message)) {
+    const reset = getRateLimitReset(headers);
+    return new GitHubApiError(
+      reset
+        ? `${message}. Rate limit resets at ${reset.toISOString()}`
+        : message,
+      "rate-limited",
+      status,
+      reset,
+    );
+  }
+  if (status === undefined) {
+    return new GitHubApiError(message, "network");
+  }
+  if (status === 401) {
+    return new GitHubApiError(message, "unauthorized", status);
+  }
+  if (status === 403) {
+    return new GitHubApiError(message, "forbidden", status);
+  }
+  if (status === 404) {
+    return new GitHubApiError(message, "not-found", status);
+  }
+  if (status >= 500) {
+    return new GitHubApiError(message, "server", status);
+  }
+  return new GitHubApiError(message, "request", status);
+}
+
+/**
+ * Compute how long to wait before retrying a failed request
+ * Rate limits wait for `retry-after` or the reset time; other retryable
+ * errors back off exponentially with full jitter
+ * @returns Delay in milliseconds, or undefined if the request must not be
+ * retried
+ */
+export function getRetryDelay(
+  error: OctokitRequestError,
+  apiError: GitHubApiError,
+  attempt: number,
+  options: Pick<RetryOptions, "retries" | "minDelayMs" | "maxDelayMs">,
+  now: number = Date.now(),
+): number | undefined {
+  if (attempt >= options.retries) {
+    return undefined;
+  }
+  const backoff = Math.random() * options.minDelayMs * 2 ** attempt;
+
+  switch (apiError.kind) {
+    case "network":
+    case "server":
+      return Math.min(backoff, options.maxDelayMs);
+    case "rate-limited": {
+      const headers = error.response?.headers ?? {};
+      const retryAfter = Number(headers["retry-after"]);
+      let delay = backoff + options.minDelayMs;
+      if (Number.isFinite(retryAfter) && retryAfter >= 0) {
+        delay = retryAfter * 1000;
+      } else if (apiError.rateLimitReset) {
+        delay = Math.max(apiError.rateLimitReset.getTime() - now, 0) + 1000;
+      }
+      return delay <= options.maxDelayMs ? delay : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function isRateLimited(
+  status: number | undefined,
+  headers: Record<string, string | number | undefined>,
+  message: string,
+): boolean {
+  if (status === 429) {
+    return true;
+  }
+  if (status !== 403) {
+    return false;
+  }
+  return (
+    String(headers["x-ratelimit-remaining"]) === "0" ||
+    headers["retry-after"] !== undefined ||
+    /secondary rate limit/i.test(message)
+  );
+}
+
+function getRateLimitReset(
+  headers: Record<string, string | number | undefined>,
+): Date | undefined {
+  const reset = Number(headers["x-ratelimit-reset"]);
+  return Number.isFinite(reset) && reset > 0
+    ? new Date(reset * 1000)
+    : undefined;
+}
+
+/**
+ * Check if the remaining quota in response headers is below LOW_QUOTA_RATIO
+ * of the limit
+ */
+export function isQuotaLow(
+  headers: Record<string, string | number | undefined>,
+): boolean {
+  const remaining = Number(headers["x-ratelimit-remaining"]);
+  const limit = Number(headers["x-ratelimit-limit"]);
+  return (
+    Number.isFinite(remaining) &&
+    Number.isFinite(limit) &&
+    limit > 0 &&
+    remaining < limit * LOW_QUOTA_RATIO
+  );
+}
+
+/**
+ * Log the remaining quota, as a warning the first time it runs low
+ * @param warned - Whether the client already warned about a low quota
+ * @returns Whether the client has warned about a low quota
+ */
+function reportQuota(
+  headers: Record<string, string | number | undefined>,
+  warned: boolean,
+): boolean {
+  const remaining = headers["x-ratelimit-remaining"];
+  const limit = headers["x-ratelimit-limit"];
+  if (remaining === undefined || limit === undefined) {
+    return warned;
+  }
+  const reset = getRateLimitReset(headers);
+  const message = `GitHub API quota: ${remaining}/${limit} requests remaining${reset ? `, resets at ${reset.toISOString()}` : ""}`;
+  if (!warned && isQuotaLow(headers)) {
+    core.warning(`${message}. Further requests may be rate limited`);
+    return true;
+  }
+  core.debug(message);
+  return warned;
+}
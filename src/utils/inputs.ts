@@ -1,11 +1,30 @@
 import * as core from "@actions/core";
+import type { BuildConfig } from "../download/build";
+import type { CacheConfig } from "../download/cache";
+import type { CompatibilityConfig } from "../download/compatibility";
+import type { ResolutionStrategy } from "../download/download-version";
+import { DEFAULT_COMMIT_TAG_PATTERN } from "../download/download-version";
+import type { SelectReleaseOptions } from "../download/releases";
+import type { ReleaseSource } from "../download/source";
+import { getDefaultReleaseSource, parseRepository } from "../download/source";
+import type { InstallConfig } from "../download/system";
 import type { IssueSyncConfig } from "../issues/types";
+import type { BaselineConfig } from "../reports/baseline";
+import type { CheckRunConfig } from "../reports/check-run";
+import type { PrCommentConfig } from "../reports/pr-comment";
+import type { JobSummaryConfig } from "../reports/summary";
+import type { FailOnLevel } from "../types/spectr";
+import type { OnlyChangedConfig } from "./changed-files";
+import { getWorkflowApiUrl } from "./github-api";
 
 export const version = core.getInput("version");
 export const githubToken = core.getInput("github-token");
+export const checksum = core.getInput("checksum");
 export const args = core.getInput("args");
 export const src = core.getInput("src");
 export const versionFile = core.getInput("version-file");
+export const sarifFile = core.getInput("sarif-file");
+export const junitFile = core.getInput("junit-file");
 
 /**
  * Get issue sync configuration from action inputs
@@ -20,6 +39,7 @@ export function getIssueSyncConfig(): IssueSyncConfig {
   const token = core.getInput("github-token");
 
   return {
+    apiUrl: getWorkflowApiUrl(),
     closeOnArchive: closeOnArchive.toLowerCase() !== "false",
     enabled: syncIssues.toLowerCase() === "true",
     githubToken: token,
@@ -30,6 +50,248 @@ export function getIssueSyncConfig(): IssueSyncConfig {
   };
 }
 
+/**
+ * Get check run configuration from the `check-run` and `check-name` inputs
+ */
+export function getCheckRunConfig(): CheckRunConfig {
+  return {
+    enabled: core.getInput("check-run").toLowerCase() === "true",
+    name: core.getInput("check-name") || "Spectr validation",
+  };
+}
+
+/**
+ * Get pull request comment configuration from the `pr-comment` input
+ */
+export function getPrCommentConfig(): PrCommentConfig {
+  return {
+    enabled: core.getInput("pr-comment").toLowerCase() === "true",
+  };
+}
+
+/**
+ * Get job summary configuration from the `job-summary` input
+ */
+export function getJobSummaryConfig(): JobSummaryConfig {
+  return {
+    enabled: core.getInput("job-summary").toLowerCase() !== "false",
+  };
+}
+
+/**
+ * Get diff-aware validation configuration from action inputs
+ */
+export function getOnlyChangedConfig(): OnlyChangedConfig {
+  return {
+    enabled: core.getInput("only-changed").toLowerCase() === "true",
+    failOnUnrelated:
+      core.getInput("fail-on-unrelated").toLowerCase() === "true",
+  };
+}
+
+/**
+ * Get baseline configuration from action inputs
+ */
+export function getBaselineConfig(): BaselineConfig {
+  const file = core.getInput("baseline");
+  const matches = core.getInput("baseline-matches").trim().toLowerCase();
+  const write = core.getInput("write-baseline").toLowerCase() === "true";
+
+  if (write && !file) {
+    throw new Error("write-baseline requires the baseline input to be set");
+  }
+  if (!matches) {
+    return { file, matches: "notice", write };
+  }
+  if (matches !== "notice" && matches !== "hide") {
+    throw new Error(
+      `Invalid baseline-matches value: ${matches}. Expected one of: notice, hide`,
+    );
+  }
+  return { file, matches, write };
+}
+
+/**
+ * Get version compatibility configuration from action inputs
+ */
+export function getCompatibilityConfig(): CompatibilityConfig {
+  const unsupportedVersion = core
+    .getInput("unsupported-version")
+    .trim()
+    .toLowerCase();
+  const latestCompatible =
+    core.getInput("latest-compatible").toLowerCase() === "true";
+
+  if (!unsupportedVersion) {
+    return { latestCompatible, unsupportedVersion: "warning" };
+  }
+  if (
+    unsupportedVersion !== "error" &&
+    unsupportedVersion !== "warning" &&
+    unsupportedVersion !== "ignore"
+  ) {
+    throw new Error(
+      `Invalid unsupported-version value: ${unsupportedVersion}. Expected one of: error, warning, ignore`,
+    );
+  }
+  return { latestCompatible, unsupportedVersion };
+}
+
+/**
+ * Get cross-job cache configuration from the `cache` and
+ * `release-list-ttl` inputs
+ */
+export function getCacheConfig(): CacheConfig {
+  const enabled = core.getInput("cache").toLowerCase() !== "false";
+  const ttl = core.getInput("release-list-ttl").trim();
+  if (!ttl) {
+    return { enabled, releaseListTtl: 60 };
+  }
+  const releaseListTtl = Number(ttl);
+  if (!Number.isInteger(releaseListTtl) || releaseListTtl < 0) {
+    throw new Error(
+      `Invalid release-list-ttl value: ${ttl}. Expected a whole number of minutes`,
+    );
+  }
+  return { enabled, releaseListTtl };
+}
+
+/**
+ * Get release selection options from the `include-prereleases` and
+ * `commit-tag-pattern` inputs
+ */
+export function getReleaseSelectionConfig(): SelectReleaseOptions {
+  const includePrereleases =
+    core.getInput("include-prereleases").toLowerCase() === "true";
+  const commitTagPattern =
+    core.getInput("commit-tag-pattern").trim() || DEFAULT_COMMIT_TAG_PATTERN;
+  if (!commitTagPattern.includes("{sha}")) {
+    throw new Error(
+      `Invalid commit-tag-pattern value: ${commitTagPattern}. Expected a pattern containing {sha}`,
+    );
+  }
+  return { commitTagPattern, includePrereleases };
+}
+
+/**
+ * Get how the version input is resolved from the `resolution-strategy` input
+ */
+export function getResolutionStrategy(): ResolutionStrategy {
+  const strategy = core.getInput("resolution-strategy").trim().toLowerCase();
+  if (!strategy) {
+    return "online";
+  }
+  if (
+    strategy !== "online" &&
+    strategy !== "cache-first" &&
+    strategy !== "offline"
+  ) {
+    throw new Error(
+      `Invalid resolution-strategy value: ${strategy}. Expected one of: online, cache-first, offline`,
+    );
+  }
+  return strategy;
+}
+
+/**
+ * Get spectr install configuration from the `install` and `spectr-path`
+ * inputs
+ */
+export function getInstallConfig(): InstallConfig {
+  const install = core.getInput("install").trim().toLowerCase();
+  const spectrPath = core.getInput("spectr-path").trim();
+
+  switch (install) {
+    case "":
+    case "true":
+      return { mode: "always", spectrPath };
+    case "false":
+      return { mode: "never", spectrPath };
+    case "prefer-system":
+      return { mode: "prefer-system", spectrPath };
+    default:
+      throw new Error(
+        `Invalid install value: ${install}. Expected one of: true, false, prefer-system`,
+      );
+  }
+}
+
+/**
+ * Get build-from-source configuration from the `build-from-source` and
+ * `spectr-source` inputs
+ */
+export function getBuildConfig(): BuildConfig {
+  const enabled = core.getInput("build-from-source").toLowerCase() === "true";
+  const sourcePath = core.getInput("spectr-source").trim();
+  return { enabled, sourcePath };
+}
+
+/**
+ * Get the spectr release source from the `api-url`, `download-url` and
+ * `spectr-repository` inputs
+ * Unset inputs keep the upstream defaults on github.com. Calls against the
+ * workflow's repository always use the API of the GitHub instance the
+ * workflow runs on instead
+ */
+export function getReleaseSource(): ReleaseSource {
+  const source = getDefaultReleaseSource();
+  const apiUrl = core.getInput("api-url").trim();
+  const downloadUrl = core.getInput("download-url").trim();
+  const repository = core.getInput("spectr-repository").trim();
+
+  if (apiUrl) {
+    source.apiUrl = parseUrl(apiUrl, "api-url").replace(/\/+$/, "");
+  }
+  if (downloadUrl) {
+    source.downloadUrl = parseUrl(downloadUrl, "download-url");
+  }
+  if (repository) {
+    Object.assign(source, parseRepository(repository));
+  }
+  return source;
+}
+
+/**
+ * Get the failure policy from the `fail-on` and `strict` inputs
+ * An explicit `fail-on` wins; otherwise `strict: true` fails on warnings
+ */
+export function getFailOn(): FailOnLevel {
+  const failOn = core.getInput("fail-on").trim().toLowerCase();
+  const strict = core.getInput("strict").toLowerCase() === "true";
+
+  if (!failOn) {
+    return strict ? "warning" : "error";
+  }
+  if (!isFailOnLevel(failOn)) {
+    throw new Error(
+      `Invalid fail-on value: ${failOn}. Expected one of: error, warning, info, never`,
+    );
+  }
+  return failOn;
+}
+
+function isFailOnLevel(value: string): value is FailOnLevel {
+  return ["error", "warning", "info", "never"].includes(value);
+}
+
+/**
+ * Check that an input is an http(s) URL
+ */
+function parseUrl(value: string, input: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`Invalid ${input} value: ${value}. Expected a URL`);
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error(
+      `Invalid ${input} value: ${value}. Expected an http or https URL`,
+    );
+  }
+  return value;
+}
+
 /**
  * Parse comma-separated labels into array
  */
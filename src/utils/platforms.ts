@@ -1,11 +1,12 @@
 export type Platform = "Linux" | "Darwin" | "Windows";
-export type Architecture = "i386" | "x86_64" | "arm64";
+export type Architecture = "i386" | "x86_64" | "arm64" | "riscv64";
 
 export function getArch(): Architecture | undefined {
   const arch = process.arch;
   const archMapping: { [key: string]: Architecture } = {
     arm64: "arm64",
     ia32: "i386",
+    riscv64: "riscv64",
     x64: "x86_64",
   };
 
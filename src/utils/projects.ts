@@ -0,0 +1,98 @@
+/**
+ * Project discovery module
+ *
+ * Resolves the `src` input (a newline-separated list of directories or glob
+ * patterns) into the Spectr project roots to validate
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as glob from "@actions/glob";
+
+const SPECTR_DIR = "spectr";
+const GLOB_CHARS = /[*?[]/;
+
+/**
+ * A Spectr project root (the directory containing spectr/)
+ */
+export interface SpectrProject {
+  /** Project path relative to the workspace, "." for the workspace root */
+  name: string;
+  /** Absolute path to the project root */
+  path: string;
+}
+
+/**
+ * Find the Spectr projects named by the `src` input
+ * Each entry may be a directory, a path inside a spectr/ tree such as
+ * `docs/spectr/project.md`, or a glob like `**\/spectr/project.md`
+ * @param srcInput - Raw `src` input value
+ * @param workspacePath - Root the entries are resolved against
+ * @returns Deduplicated projects sorted by name
+ */
+export async function findProjects(
+  srcInput: string,
+  workspacePath: string,
+): Promise<SpectrProject[]> {
+  const entries = parseSrcInput(srcInput);
+  const roots = new Set<string>();
+
+  for (const entry of entries) {
+    if (!GLOB_CHARS.test(entry)) {
+      const resolved = path.resolve(workspacePath, entry);
+      if (!fs.existsSync(resolved)) {
+        throw new Error(`Project root does not exist: ${resolved}`);
+      }
+      roots.add(toProjectRoot(resolved));
+      continue;
+    }
+
+    const globber = await glob.create(path.join(workspacePath, entry), {
+      implicitDescendants: false,
+    });
+    const matches = await globber.glob();
+    if (matches.length === 0) {
+      throw new Error(`No Spectr projects matched pattern: ${entry}`);
+    }
+    for (const match of matches) {
+      roots.add(toProjectRoot(match));
+    }
+  }
+
+  return [...roots]
+    .map((root) => ({
+      name: path.relative(workspacePath, root).replace(/\\/g, "/") || ".",
+      path: root,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Split the `src` input into entries, defaulting to the workspace root
+ */
+export function parseSrcInput(srcInput: string): string[] {
+  const entries = srcInput
+    .split(/\r?\n/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0 && !entry.startsWith("#"));
+  return entries.length > 0 ? entries : ["."];
+}
+
+/**
+ * Map a matched path to the directory that contains its spectr/ tree
+ * Files map to their directory; a spectr/ directory maps to its parent unless
+ * it holds a spectr/ tree itself (e.g. a checkout of the spectr repository)
+ */
+export function toProjectRoot(matchPath: string): string {
+  let root = path.resolve(matchPath);
+  if (fs.existsSync(root) && fs.statSync(root).isFile()) {
+    root = path.dirname(root);
+  }
+  if (
+    path.basename(root) === SPECTR_DIR &&
+    !fs.existsSync(path.join(root, SPECTR_DIR))
+  ) {
+    root = path.dirname(root);
+  }
+  return root;
+}
@@ -0,0 +1,175 @@
+/**
+ * Version file module
+ *
+ * Reads the Spectr version pinned in a repository file. Supported formats:
+ * `.tool-versions` (asdf), `mise.toml`, `flake.nix` and plain version files
+ * such as `.spectr-version`
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { OWNER, REPO } from "./constants";
+
+/**
+ * A version found in a version file
+ */
+export interface VersionFileResult {
+  /** Version specifier as written in the file */
+  version: string;
+  /** Path of the file the version was read from */
+  file: string;
+  /** 1-based line number of the version */
+  line: number;
+}
+
+/**
+ * Choose the version specifier from the `version` and `version-file` inputs
+ * @param version - Value of the `version` input
+ * @param versionFile - Value of the `version-file` input
+ * @param workspacePath - Root the version file path is resolved against
+ * @returns Version specifier plus its source file when read from one
+ */
+export function getVersionInput(
+  version: string,
+  versionFile: string,
+  workspacePath: string,
+): { version: string; source?: VersionFileResult } {
+  if (!versionFile) {
+    return { version: version || "latest" };
+  }
+  if (version) {
+    throw new Error(
+      `The 'version' input (${version}) and 'version-file' input (${versionFile}) cannot be used together. Remove one of them.`,
+    );
+  }
+
+  const source = getSpectrVersionFromFile(
+    path.resolve(workspacePath, versionFile),
+  );
+  return { source, version: source.version };
+}
+
+/**
+ * Read the Spectr version from a version file
+ * @param filePath - Path to the version file
+ * @returns The version and where it was found
+ */
+export function getSpectrVersionFromFile(filePath: string): VersionFileResult {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, "utf-8");
+  } catch {
+    throw new Error(`Version file not found: ${filePath}`);
+  }
+
+  const lines = content.split(/\r?\n/);
+  const fileName = path.basename(filePath);
+  let found: { version: string; index: number } | undefined;
+
+  if (fileName === ".tool-versions") {
+    found = findInToolVersions(lines);
+  } else if (fileName === "mise.toml" || fileName === ".mise.toml") {
+    found = findInMiseToml(lines);
+  } else if (fileName === "flake.nix") {
+    found = findInFlakeNix(lines);
+  } else {
+    found = findInPlainFile(lines);
+  }
+
+  if (!found) {
+    throw new Error(`No Spectr version found in ${filePath}`);
+  }
+  return { file: filePath, line: found.index + 1, version: found.version };
+}
+
+/**
+ * Parse asdf `.tool-versions` lines: `spectr 0.1.0 [fallback...]`
+ */
+function findInToolVersions(
+  lines: string[],
+): { version: string; index: number } | undefined {
+  for (const [index, line] of lines.entries()) {
+    const [tool, version] = stripComment(line, "#").trim().split(/\s+/);
+    if (tool === REPO && version) {
+      return { index, version };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse the `[tools]` table of a mise config. Accepts string, array and
+ * inline table values, keyed by `spectr` or a backend such as
+ * `"ubi:connerohnesorge/spectr"`
+ */
+function findInMiseToml(
+  lines: string[],
+): { version: string; index: number } | undefined {
+  let inTools = false;
+  for (const [index, rawLine] of lines.entries()) {
+    const line = stripComment(rawLine, "#").trim();
+    const table = line.match(/^\[([^\]]+)\]$/);
+    if (table) {
+      inTools = table[1].trim() === "tools";
+      continue;
+    }
+    if (!inTools) {
+      continue;
+    }
+
+    const entry = line.match(/^("[^"]+"|'[^']+'|[\w.:/-]+)\s*=\s*(.+)$/);
+    if (!entry || !isSpectrToolKey(entry[1].replace(/^["']|["']$/g, ""))) {
+      continue;
+    }
+    const version =
+      entry[2].match(/version\s*=\s*["']([^"']+)["']/)?.[1] ??
+      entry[2].match(/["']([^"']+)["']/)?.[1];
+    if (version) {
+      return { index, version };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find a Spectr flake input pinned to a tag, e.g.
+ * `spectr.url = "github:connerohnesorge/spectr/v0.1.0";`
+ */
+function findInFlakeNix(
+  lines: string[],
+): { version: string; index: number } | undefined {
+  const pattern = new RegExp(
+    `github:${OWNER}/${REPO}(?:/|\\?ref=)(v?\\d+\\.\\d+\\.\\d+[\\w.+-]*)`,
+  );
+  for (const [index, line] of lines.entries()) {
+    const match = stripComment(line, "#").match(pattern);
+    if (match) {
+      return { index, version: match[1] };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Use the first non-empty, non-comment line of a plain version file
+ */
+function findInPlainFile(
+  lines: string[],
+): { version: string; index: number } | undefined {
+  for (const [index, line] of lines.entries()) {
+    const version = stripComment(line, "#").trim();
+    if (version) {
+      return { index, version };
+    }
+  }
+  return undefined;
+}
+
+function isSpectrToolKey(key: string): boolean {
+  return key === REPO || key.endsWith(`${OWNER}/${REPO}`);
+}
+
+function stripComment(line: string, marker: string): string {
+  const commentStart = line.indexOf(marker);
+  return commentStart === -1 ? line : line.substring(0, commentStart);
+}